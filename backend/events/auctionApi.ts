@@ -0,0 +1,299 @@
+import { LambdaFunctionURLEvent, LambdaFunctionURLResult } from "aws-lambda";
+import { AuctionRepository, InvalidCursorError } from "../services/AuctionRepository.js";
+import { AuctionQueryService } from "../services/AuctionQueryService.js";
+import { PropertyFlagRepository } from "../services/PropertyFlagRepository.js";
+import { PropertyFlagService } from "../services/PropertyFlagService.js";
+import { PropertyHistoryService } from "../services/PropertyHistoryService.js";
+import { UserProfileRepository } from "../services/UserProfileRepository.js";
+import { WatchlistRepository } from "../services/WatchlistRepository.js";
+import { auctionQuerySchema } from "../types/AuctionQuery.js";
+import { propertyKeySchema } from "../types/PropertyIdentifier.js";
+import { UserProfile } from "../types/UserProfile.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Build a JSON response (successful public responses are cacheable)
+ */
+function json(statusCode: number, body: unknown, cacheable = true): LambdaFunctionURLResult {
+  return {
+    statusCode,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": cacheable && statusCode === 200 ? "public, max-age=60" : "no-store",
+    },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * Resolve the user from the personal feed token (?token=)
+ * The user is never taken from a userId parameter, suitability includes the driving times
+ * from the user's home
+ * @returns undefined profile without a token, or an error response for a bare userId or an
+ * unknown token
+ */
+async function resolveUser(
+  event: LambdaFunctionURLEvent
+): Promise<{ profile?: UserProfile; error?: LambdaFunctionURLResult }> {
+  if (event.queryStringParameters?.userId) {
+    return { error: json(400, { error: "userId is not supported, use the feed token (token)" }) };
+  }
+  const token = event.queryStringParameters?.token;
+  if (!token) {
+    return {};
+  }
+  const profile = await UserProfileRepository.getByFeedToken(token);
+  if (!profile) {
+    return { error: json(401, { error: "Invalid token" }) };
+  }
+  return { profile };
+}
+
+/**
+ * GET /auctions - List published auctions (filters and cursor pagination, see AuctionQuery)
+ */
+async function listAuctions(event: LambdaFunctionURLEvent): Promise<LambdaFunctionURLResult> {
+  const parsed = auctionQuerySchema.safeParse(event.queryStringParameters ?? {});
+  if (!parsed.success) {
+    return json(400, {
+      error: "Invalid query parameters",
+      issues: parsed.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+  }
+  const query = parsed.data;
+
+  const { profile, error } = await resolveUser(event);
+  if (error) {
+    return error;
+  }
+
+  // Auctions of properties the user rejected are left out of the user's list
+  const notRejected = profile
+    ? await PropertyFlagService.getNotRejectedFilter(profile.userId)
+    : null;
+
+  try {
+    const { auctions, nextCursor } = await AuctionRepository.queryPublishedAuctions({
+      userId: profile?.userId,
+      cursor: query.cursor,
+      limit: query.limit,
+      ascending: query.order === "asc",
+      filterMain: (main) => AuctionQueryService.matchesMainRecord(main, query),
+      filterAuction: (auction) =>
+        AuctionQueryService.matchesAuction(auction, query) &&
+        (!notRejected || notRejected(auction)),
+    });
+
+    // Responses with a user's suitability are not cached
+    return json(200, { items: auctions, nextCursor }, !profile);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return json(400, { error: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * GET /auctions/{auctionId} - Full auction (with ?token= the user's suitability is attached)
+ */
+async function getAuction(
+  event: LambdaFunctionURLEvent,
+  auctionId: string
+): Promise<LambdaFunctionURLResult> {
+  const { profile, error } = await resolveUser(event);
+  if (error) {
+    return error;
+  }
+
+  const auction = await AuctionRepository.getById(auctionId, profile?.userId);
+
+  if (!auction) {
+    return json(404, { error: `Auction not found: ${auctionId}` });
+  }
+
+  return json(200, auction, !profile);
+}
+
+/**
+ * GET /properties/{cadastralMunicipality}/{number}?type= - Every auction that ever involved the
+ * parcel or building part, with prices and GURS valuations at the time (number may contain "/",
+ * e.g. 536/6)
+ * type is parcel (default), building or building_part - parcel 123/4 and building part 123/4
+ * are different properties
+ */
+async function getPropertyHistory(
+  event: LambdaFunctionURLEvent,
+  cadastralMunicipality: string,
+  number: string
+): Promise<LambdaFunctionURLResult> {
+  const type = propertyKeySchema.shape.type.safeParse(
+    event.queryStringParameters?.type ?? "parcel"
+  );
+  if (!type.success) {
+    return json(400, { error: "Invalid type, expected parcel, building or building_part" });
+  }
+
+  const history = await PropertyHistoryService.getHistory({
+    type: type.data,
+    cadastralMunicipality,
+    number,
+  });
+
+  if (history.entries.length === 0) {
+    return json(404, {
+      error: `No auctions found for property: ${cadastralMunicipality}-${number}`,
+    });
+  }
+
+  return json(200, history);
+}
+
+/**
+ * /watchlist[/{auctionId}]?token= - The user's watched auctions (deadline reminders)
+ * The user is identified by the personal feed token
+ * GET lists the watchlist, PUT adds the auction, DELETE removes it
+ */
+async function handleWatchlist(
+  event: LambdaFunctionURLEvent,
+  method: string,
+  auctionId: string | undefined
+): Promise<LambdaFunctionURLResult> {
+  const token = event.queryStringParameters?.token;
+  const profile = token ? await UserProfileRepository.getByFeedToken(token) : null;
+  if (!profile) {
+    return json(401, { error: "Invalid or missing token" });
+  }
+  const { userId } = profile;
+
+  if (!auctionId) {
+    if (method !== "GET") {
+      return json(405, { error: "Method not allowed" });
+    }
+    const items = await WatchlistRepository.getByUserId(userId);
+    return json(200, { items }, false);
+  }
+
+  switch (method) {
+    case "PUT": {
+      const auction = await AuctionRepository.getById(auctionId);
+      if (!auction) {
+        return json(404, { error: `Auction not found: ${auctionId}` });
+      }
+      return json(200, await WatchlistRepository.add(userId, auctionId), false);
+    }
+    case "DELETE":
+      await WatchlistRepository.remove(userId, auctionId);
+      return json(200, { userId, auctionId }, false);
+    default:
+      return json(405, { error: "Method not allowed" });
+  }
+}
+
+/**
+ * /flags[/{auctionId}]?token= - The user's flags on properties (price drop alerts)
+ * The user is identified by the personal feed token
+ * GET lists the flags, PUT ?flag=interesting|rejected flags all properties of the auction,
+ * DELETE removes the flags of the auction's properties
+ */
+async function handleFlags(
+  event: LambdaFunctionURLEvent,
+  method: string,
+  auctionId: string | undefined
+): Promise<LambdaFunctionURLResult> {
+  const token = event.queryStringParameters?.token;
+  const profile = token ? await UserProfileRepository.getByFeedToken(token) : null;
+  if (!profile) {
+    return json(401, { error: "Invalid or missing token" });
+  }
+  const { userId } = profile;
+
+  if (!auctionId) {
+    if (method !== "GET") {
+      return json(405, { error: "Method not allowed" });
+    }
+    const items = await PropertyFlagRepository.getByUserId(userId);
+    return json(200, { items }, false);
+  }
+
+  if (method !== "PUT" && method !== "DELETE") {
+    return json(405, { error: "Method not allowed" });
+  }
+
+  const auction = await AuctionRepository.getById(auctionId);
+  if (!auction) {
+    return json(404, { error: `Auction not found: ${auctionId}` });
+  }
+
+  if (method === "DELETE") {
+    await PropertyFlagService.unflagAuction(userId, auction);
+    return json(200, { userId, auctionId }, false);
+  }
+
+  const flag = event.queryStringParameters?.flag;
+  if (flag !== "interesting" && flag !== "rejected") {
+    return json(400, { error: "Invalid flag, expected interesting or rejected" });
+  }
+  const items = await PropertyFlagService.flagAuction(userId, auction, flag);
+  if (items.length === 0) {
+    return json(400, { error: "Auction has no properties to flag" });
+  }
+  return json(200, { items }, false);
+}
+
+/**
+ * Auction API Lambda - JSON read API for auctions, property histories, the users' watchlists
+ * and property flags
+ * Exposed via Lambda Function URL through CloudFront under /api
+ */
+export async function handler(event: LambdaFunctionURLEvent): Promise<LambdaFunctionURLResult> {
+  const method = event.requestContext.http.method;
+  // CloudFront forwards the full path, e.g. /api/auctions
+  const path = event.rawPath.replace(/^\/api(?=\/)/, "").replace(/\/+$/, "");
+
+  logger.log("Auction API request", { method, path, query: event.queryStringParameters });
+
+  try {
+    const watchlistMatch = path.match(/^\/watchlist(?:\/([^/]+))?$/);
+    if (watchlistMatch) {
+      const auctionId = watchlistMatch[1] ? decodeURIComponent(watchlistMatch[1]) : undefined;
+      return await handleWatchlist(event, method, auctionId);
+    }
+
+    const flagsMatch = path.match(/^\/flags(?:\/([^/]+))?$/);
+    if (flagsMatch) {
+      const auctionId = flagsMatch[1] ? decodeURIComponent(flagsMatch[1]) : undefined;
+      return await handleFlags(event, method, auctionId);
+    }
+
+    if (method !== "GET" && method !== "HEAD") {
+      return json(405, { error: "Method not allowed" });
+    }
+
+    if (path === "/auctions") {
+      return await listAuctions(event);
+    }
+
+    const match = path.match(/^\/auctions\/([^/]+)$/);
+    if (match) {
+      return await getAuction(event, decodeURIComponent(match[1]));
+    }
+
+    const propertyMatch = path.match(/^\/properties\/([^/]+)\/(.+)$/);
+    if (propertyMatch) {
+      return await getPropertyHistory(
+        event,
+        decodeURIComponent(propertyMatch[1]),
+        decodeURIComponent(propertyMatch[2])
+      );
+    }
+
+    return json(404, { error: "Not found" });
+  } catch (error) {
+    logger.error("Auction API request failed", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
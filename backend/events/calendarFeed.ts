@@ -0,0 +1,101 @@
+import { LambdaFunctionURLEvent } from "aws-lambda";
+import { AuctionRepository } from "../services/AuctionRepository.js";
+import { AuctionQueryService } from "../services/AuctionQueryService.js";
+import { CalendarService } from "../services/CalendarService.js";
+import { PropertyFlagService } from "../services/PropertyFlagService.js";
+import { UserProfileRepository } from "../services/UserProfileRepository.js";
+import { WatchlistRepository } from "../services/WatchlistRepository.js";
+import { Auction } from "../types/Auction.js";
+import { rssFeedQuerySchema } from "../types/AuctionQuery.js";
+import { logger } from "../utils/logger.js";
+
+const CALENDAR_LIMIT = 100;
+
+function textResponse(statusCode: number, body: string) {
+  return {
+    statusCode,
+    headers: {
+      "Content-Type": "text/plain",
+    },
+    body,
+  };
+}
+
+/**
+ * Watched auctions of the user (auctions deleted after their dueDate are skipped)
+ */
+async function getWatchedAuctions(userId: string): Promise<Auction[]> {
+  const watchlist = await WatchlistRepository.getByUserId(userId);
+  const auctions = await Promise.all(
+    watchlist.map(({ auctionId }) => AuctionRepository.getById(auctionId, userId))
+  );
+  return auctions.filter((auction): auction is Auction => auction !== undefined);
+}
+
+/**
+ * Calendar Feed Lambda - Returns auction deadlines and viewings as an iCalendar feed
+ * Exposed via Lambda Function URL through CloudFront, for subscribing in Google/Outlook calendars
+ * - /calendar/{feedToken}.ics - published auctions of the user with upcoming dueDate
+ * - /calendar/{feedToken}.ics?watchlist=true - only the user's watched auctions
+ * Query parameters: minScore, maxDrivingMinutes, types, sources, maxPrice (see rssFeedQuerySchema)
+ */
+export async function handler(event: LambdaFunctionURLEvent) {
+  const tokenMatch = event.rawPath.match(/^\/calendar\/([^/]+?)(?:\.ics)?\/?$/);
+  if (!tokenMatch) {
+    return textResponse(404, "Calendar not found");
+  }
+
+  const profile = await UserProfileRepository.getByFeedToken(decodeURIComponent(tokenMatch[1]));
+  if (!profile) {
+    return textResponse(404, "Calendar not found");
+  }
+  const { userId } = profile;
+
+  const { watchlist, ...query } = event.queryStringParameters ?? {};
+  const parsed = rssFeedQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return textResponse(
+      400,
+      `Invalid query parameters: ${parsed.error.issues.map((i) => `${i.path.join(".")} ${i.message}`).join(", ")}`
+    );
+  }
+  const filter = { ...parsed.data, dueFrom: new Date().toISOString() };
+
+  logger.log("Generating calendar feed", { userId, filter, watchlist });
+
+  try {
+    let auctions: Auction[];
+    if (watchlist === "true") {
+      auctions = await getWatchedAuctions(userId);
+    } else {
+      const notRejected = await PropertyFlagService.getNotRejectedFilter(userId);
+      ({ auctions } = await AuctionRepository.queryPublishedAuctions({
+        userId,
+        limit: CALENDAR_LIMIT,
+        filterMain: (main) => AuctionQueryService.matchesMainRecord(main, filter),
+        filterAuction: (auction) =>
+          AuctionQueryService.matchesAuction(auction, filter) && notRejected(auction),
+      }));
+    }
+
+    const name = watchlist === "true" ? `Dražbe AI - spremljam` : `Dražbe AI - ${profile.name}`;
+    const body = CalendarService.buildCalendar(name, auctions);
+
+    logger.log("Calendar feed generated", { userId, auctionCount: auctions.length });
+
+    return {
+      statusCode: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="drazbe.ics"',
+        // Per-user content, must not be stored by shared caches
+        "Cache-Control": "private, max-age=300",
+      },
+      body,
+    };
+  } catch (error) {
+    logger.error("Failed to generate calendar feed", error);
+
+    return textResponse(500, "Failed to generate calendar feed");
+  }
+}
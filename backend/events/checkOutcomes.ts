@@ -0,0 +1,19 @@
+import { OutcomeService } from "../services/OutcomeService.js";
+
+/**
+ * Outcome Lambda - Runs daily
+ * Revisits announcements of auctions after their deadline and records the outcome
+ * (sold, unsuccessful, cancelled, postponed) and the achieved price
+ */
+export async function handler() {
+  const { checked, failed } = await OutcomeService.checkDueOutcomes();
+
+  if (failed > 0) {
+    throw new Error(`Failed to check ${failed} of ${checked + failed} auction outcomes`);
+  }
+
+  return {
+    statusCode: 200,
+    body: `Outcome check completed. Checked ${checked} auctions.`,
+  };
+}
@@ -0,0 +1,33 @@
+import { SQSEvent } from "aws-lambda";
+import { AuctionRepository } from "../services/AuctionRepository.js";
+import { NotificationService } from "../services/NotificationService.js";
+import { UserProfileRepository } from "../services/UserProfileRepository.js";
+import { AlertQueueMessage } from "../types/QueueMessages.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Alert Processor Lambda - Sends instant alerts for top matches
+ * Triggered by SQS messages from the auction analysis processor
+ * Failed deliveries throw, so SQS redelivers the message (already delivered channels are skipped)
+ */
+export async function handler(event: SQSEvent) {
+  for (const record of event.Records) {
+    const message: AlertQueueMessage = JSON.parse(record.body);
+    const { userId, auctionId } = message;
+
+    logger.log("Processing alert", { userId, auctionId });
+
+    const profile = await UserProfileRepository.getById(userId);
+    if (!profile) {
+      logger.warn("User profile not found, skipping alert", { userId, auctionId });
+      continue;
+    }
+
+    const auction = await AuctionRepository.getById(auctionId, userId);
+    if (!auction) {
+      throw new Error(`Auction not found: ${auctionId}`);
+    }
+
+    await NotificationService.sendAlert(profile, auction);
+  }
+}
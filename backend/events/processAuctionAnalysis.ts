@@ -1,23 +1,39 @@
 import { SQSEvent } from "aws-lambda";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
 import { AuctionRepository } from "../services/AuctionRepository.js";
 import { UserSuitabilityRepository } from "../services/UserSuitabilityRepository.js";
-import { AiAuctionAnalysisService } from "../services/AiAuctionAnalysisService.js";
+import { UserProfileRepository } from "../services/UserProfileRepository.js";
+import { AiAuctionAnalysisService, AuctionAnalysis } from "../services/AiAuctionAnalysisService.js";
 import { AuctionMarkdownService } from "../services/AuctionMarkdownService.js";
+import { DeduplicationService } from "../services/DeduplicationService.js";
 import { GoogleMapsService } from "../services/GoogleMapsService.js";
+import { OutcomeService } from "../services/OutcomeService.js";
+import { PropertyFlagService } from "../services/PropertyFlagService.js";
+import { SuitabilityCriteriaService } from "../services/SuitabilityCriteriaService.js";
+import { SuitabilityScoreService } from "../services/SuitabilityScoreService.js";
 import { Auction } from "../types/Auction.js";
 import { DrivingResult } from "../types/DrivingResult.js";
-import { AuctionAnalysisQueueMessage } from "../types/QueueMessages.js";
+import { UserProfile } from "../types/UserProfile.js";
+import { UserSuitability } from "../types/SuitabilityScore.js";
+import { AlertQueueMessage, AuctionAnalysisQueueMessage } from "../types/QueueMessages.js";
 import { logger } from "../utils/logger.js";
-import { config } from "../utils/config.js";
+
+const sqsClient = new SQSClient({});
+
+const ALERT_QUEUE_URL = process.env.ALERT_QUEUE_URL;
 
 /**
- * Get driving info from home to the auction property
+ * Get driving info from the user's home to the auction property
  * Uses first property's centroid that has one, or falls back to auction location
  */
-async function getDrivingInfoFromHome(auction: Auction): Promise<DrivingResult | null> {
-  const homeAddress = await config.get("/drazbe-ai/home-address");
-  if (!homeAddress) {
-    logger.warn("HOME_ADDRESS not configured, skipping driving info calculation");
+async function getDrivingInfoFromHome(
+  auction: Auction,
+  profile: UserProfile
+): Promise<DrivingResult | null> {
+  if (!profile.homeAddress) {
+    logger.warn("Home address not configured for user, skipping driving info calculation", {
+      userId: profile.userId,
+    });
     return null;
   }
 
@@ -25,20 +41,108 @@ async function getDrivingInfoFromHome(auction: Auction): Promise<DrivingResult |
   const centroid = auction.properties?.find((p) => p.valuation?.centroid)?.valuation?.centroid;
 
   if (centroid) {
-    return GoogleMapsService.getDrivingInfo(homeAddress, centroid);
+    return GoogleMapsService.getDrivingInfo(profile.homeAddress, centroid);
   }
 
   // Fallback to location address if available
   if (auction.location) {
-    return GoogleMapsService.getDrivingInfo(homeAddress, auction.location);
+    return GoogleMapsService.getDrivingInfo(profile.homeAddress, auction.location);
   }
 
   return null;
 }
 
+/**
+ * Queue an instant alert if the AI score reaches the user's alert threshold
+ */
+async function queueAlertIfTopMatch(
+  auctionId: string,
+  profile: UserProfile,
+  suitability: UserSuitability
+): Promise<void> {
+  const { userId, alertMinScore, alertChannels } = profile;
+  if (alertMinScore == null || !alertChannels?.length) {
+    return;
+  }
+  if (suitability.aiScore == null || suitability.aiScore < alertMinScore) {
+    return;
+  }
+  if (!ALERT_QUEUE_URL) {
+    logger.warn("ALERT_QUEUE_URL not configured, skipping alert", { auctionId, userId });
+    return;
+  }
+
+  const message: AlertQueueMessage = { userId, auctionId };
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: ALERT_QUEUE_URL,
+      MessageBody: JSON.stringify(message),
+    })
+  );
+  logger.log("Alert queued", { auctionId, userId, aiScore: suitability.aiScore, alertMinScore });
+}
+
+/**
+ * Analyze the auction for a single user and save the user's suitability record
+ */
+async function analyzeForUser(auction: Auction, profile: UserProfile): Promise<AuctionAnalysis> {
+  const { auctionId } = auction;
+  const { userId } = profile;
+
+  // Calculate driving info from the user's home
+  let drivingInfo: DrivingResult | null = null;
+  try {
+    drivingInfo = await getDrivingInfoFromHome(auction, profile);
+    logger.log("Driving info calculated", { auctionId, userId, drivingInfo });
+
+    await UserSuitabilityRepository.saveDrivingInfo(userId, auctionId, drivingInfo);
+  } catch (err) {
+    logger.warn("Failed to calculate driving info", {
+      auctionId,
+      userId,
+      error: err,
+    });
+  }
+
+  const auctionWithDriving: Auction = { ...auction, drivingInfo };
+  const markdown = AuctionMarkdownService.formatAuctionMarkdown(auctionWithDriving);
+
+  logger.log("Auction markdown generated", { auctionId, userId, markdown });
+
+  // Analyze with AI
+  const analysis = await AiAuctionAnalysisService.analyzeAuction(markdown, profile);
+
+  logger.log("AI analysis completed", { auctionId, userId, analysis });
+
+  // Compute the rule-based score from the same criteria and compare it with the AI score
+  const suitability = SuitabilityScoreService.assessSuitability(
+    { ...auctionWithDriving, aiGursValuationMakesSense: analysis.aiGursValuationMakesSense },
+    SuitabilityCriteriaService.getCriteria(profile),
+    analysis
+  );
+
+  if (suitability.scoreDisagreement) {
+    logger.warn("AI score and rule score disagree", {
+      auctionId,
+      userId,
+      aiScore: suitability.aiScore,
+      ruleScore: suitability.ruleScore,
+      ruleScoreBreakdown: suitability.ruleScoreBreakdown,
+    });
+  }
+
+  // Save the suitability to UserSuitabilityTable
+  await UserSuitabilityRepository.saveSuitability(userId, auctionId, suitability);
+
+  await queueAlertIfTopMatch(auctionId, profile, suitability);
+
+  return analysis;
+}
+
 /**
  * Auction Analysis Processor Lambda - Analyzes auctions with AI
  * Triggered by SQS messages from the stream processor
+ * Fans out per user profile, writing one UserSuitabilityRecord per user/auction pair
  */
 export async function handler(event: SQSEvent) {
   for (const record of event.Records) {
@@ -56,43 +160,69 @@ export async function handler(event: SQSEvent) {
 
     logger.log("Auction fetched", { auctionId, auction });
 
-    // Calculate driving info from home
-    let drivingInfo: DrivingResult | null = null;
+    // Dedup stage - a copy of a sale already published by another source is merged into it
     try {
-      drivingInfo = await getDrivingInfoFromHome(auction);
-      auction.drivingInfo = drivingInfo;
-      logger.log("Driving info calculated", { auctionId, drivingInfo });
-
-      await UserSuitabilityRepository.saveDrivingInfo(auctionId, drivingInfo);
-    } catch (err) {
-      logger.warn("Failed to calculate driving info", {
-        auctionId,
-        error: err,
-      });
+      const canonicalAuctionId = await DeduplicationService.deduplicate(auction);
+      if (canonicalAuctionId) {
+        logger.log("Auction merged into canonical copy, not publishing", {
+          auctionId,
+          canonicalAuctionId,
+        });
+        continue;
+      }
+    } catch (error) {
+      logger.error("Failed to deduplicate auction, publishing it", error, { auctionId });
     }
 
-    const markdown = AuctionMarkdownService.formatAuctionMarkdown(auction);
-
-    logger.log("Auction markdown generated", { auctionId, markdown });
+    // Alert users who flagged a property of this auction in an earlier, pricier offering
+    try {
+      await PropertyFlagService.checkFlaggedProperties(auction);
+    } catch (error) {
+      logger.error("Failed to check flagged properties", error, { auctionId });
+    }
 
-    // Analyze with AI
-    const analysis = await AiAuctionAnalysisService.analyzeAuction(markdown);
+    const profiles = await UserProfileRepository.getAll();
+    if (profiles.length === 0) {
+      logger.warn("No user profiles configured, analyzing without user criteria", { auctionId });
+    }
 
-    logger.log("AI analysis completed", { auctionId, analysis });
+    // GURS valuation assessment does not depend on the user, so the first analysis is used
+    // A failure for one user must not lose the analysis of the others (maxReceiveCount is 1)
+    let gursAnalysis: AuctionAnalysis | null = null;
+    for (const profile of profiles) {
+      try {
+        const analysis = await analyzeForUser(auction, profile);
+        gursAnalysis ??= analysis;
+      } catch (error) {
+        logger.error("Failed to analyze auction for user", error, {
+          auctionId,
+          userId: profile.userId,
+        });
+      }
+    }
 
-    // Save the suitability and driving info to UserSuitabilityTable
-    await UserSuitabilityRepository.saveSuitability(auctionId, analysis.aiSuitability);
+    if (!gursAnalysis) {
+      const markdown = AuctionMarkdownService.formatAuctionMarkdown(auction);
+      gursAnalysis = await AiAuctionAnalysisService.analyzeAuction(markdown);
+    }
 
     // Save the analysis to AuctionTable (appends to aiWarning + sets aiGursValuationMakesSense)
     await AuctionRepository.updateAuctionAnalysis(auctionId, {
-      aiGursValuationWarnings: analysis.aiGursValuationWarnings,
-      aiGursValuationMakesSense: analysis.aiGursValuationMakesSense,
+      aiGursValuationWarnings: gursAnalysis.aiGursValuationWarnings,
+      aiGursValuationMakesSense: gursAnalysis.aiGursValuationMakesSense,
     });
 
     logger.log("Auction analysis completed and saved", {
       auctionId,
-      aiGursValuationWarnings: analysis.aiGursValuationWarnings,
-      aiSuitability: analysis.aiSuitability,
+      userCount: profiles.length,
+      aiGursValuationWarnings: gursAnalysis.aiGursValuationWarnings,
     });
+
+    // Revisit the announcement after the deadline to learn the outcome
+    try {
+      await OutcomeService.trackAuction(auction);
+    } catch (error) {
+      logger.error("Failed to track auction outcome", error, { auctionId });
+    }
   }
 }
@@ -1,19 +1,36 @@
-import { DynamoDBStreamEvent } from "aws-lambda";
+import { DynamoDBBatchResponse, DynamoDBStreamEvent, DynamoDBRecord } from "aws-lambda";
 import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { AttributeValue } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
 import { AuctionAnalysisQueueMessage } from "../types/QueueMessages.js";
+import { AuctionMainRecord } from "../types/dynamoDb/index.js";
 import { logger } from "../utils/logger.js";
+import { ArchiveService } from "../services/ArchiveService.js";
 import { S3Service } from "../services/S3Service.js";
 
 const sqsClient = new SQSClient({});
 
 const AUCTION_ANALYSIS_QUEUE_URL = process.env.AUCTION_ANALYSIS_QUEUE_URL!;
 
+/**
+ * Record removed by DynamoDB TTL (not deleted by the application)
+ */
+function isTtlRemoval(record: DynamoDBRecord): boolean {
+  return (
+    record.userIdentity?.type === "Service" &&
+    record.userIdentity?.principalId === "dynamodb.amazonaws.com"
+  );
+}
+
 /**
  * Stream Processor Lambda - Routes DynamoDB stream events to appropriate queues
  * - INSERT MAIN records → Auction Analysis queue (for AiAuctionAnalysisService)
- * - REMOVE PROPERTY/DOCUMENT records → Delete S3 files
+ * - REMOVE MAIN records (TTL) → Archive the auction (ArchiveService)
+ * - REMOVE PROPERTY/DOCUMENT records → Delete S3 files, unless expired (the archive references them)
+ * A failed archive is reported as a batch item failure, so only that record and the ones after it
+ * are retried (records before it, e.g. INSERTs already sent to analysis, are not sent again)
  */
-export async function handler(event: DynamoDBStreamEvent) {
+export async function handler(event: DynamoDBStreamEvent): Promise<DynamoDBBatchResponse> {
   for (const record of event.Records) {
     const eventName = record.eventName;
 
@@ -63,6 +80,25 @@ export async function handler(event: DynamoDBStreamEvent) {
       const recordType = oldImage.recordType?.S;
       const auctionId = oldImage.auctionId?.S;
 
+      if (isTtlRemoval(record)) {
+        if (recordType === "MAIN") {
+          try {
+            const main = unmarshall(
+              oldImage as Record<string, AttributeValue>
+            ) as AuctionMainRecord;
+            await ArchiveService.archiveAuction(main);
+          } catch (error) {
+            logger.error("Failed to archive expired auction", error, { auctionId });
+            // Retry from this record - once the child records expire the auction cannot be archived
+            // The records after it are not processed, they are retried with it
+            return {
+              batchItemFailures: [{ itemIdentifier: record.dynamodb?.SequenceNumber ?? "" }],
+            };
+          }
+        }
+        continue;
+      }
+
       if (recordType === "PROPERTY") {
         const mapImageUrl = oldImage.mapImageUrl?.S;
         if (mapImageUrl) {
@@ -79,5 +115,5 @@ export async function handler(event: DynamoDBStreamEvent) {
     }
   }
 
-  return { statusCode: 200, body: "Stream processing completed" };
+  return { batchItemFailures: [] };
 }
@@ -1,23 +1,148 @@
+import { LambdaFunctionURLEvent } from "aws-lambda";
 import { Feed } from "feed";
 import { marked } from "marked";
 import { AuctionRepository } from "../services/AuctionRepository.js";
 import { AuctionMarkdownService } from "../services/AuctionMarkdownService.js";
+import { AuctionQueryService } from "../services/AuctionQueryService.js";
+import { GoogleMapsService } from "../services/GoogleMapsService.js";
+import { PropertyFlagService } from "../services/PropertyFlagService.js";
+import { UserProfileRepository } from "../services/UserProfileRepository.js";
+import { rssFeedQuerySchema } from "../types/AuctionQuery.js";
+import { UserProfile } from "../types/UserProfile.js";
+import { Auction } from "../types/Auction.js";
 import { logger } from "../utils/logger.js";
+import { toPublicUrl } from "../utils/publicUrl.js";
+
+// Optional default minimum AI score of personal feeds (all published auctions if not set)
+const FEED_MIN_SCORE = process.env.FEED_MIN_SCORE ? Number(process.env.FEED_MIN_SCORE) : undefined;
+const FEED_LIMIT = 100;
+
+type FeedFormat = "rss" | "atom" | "json";
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+/**
+ * Get the feed format from the format parameter, falling back to the Accept header
+ * @returns null for an unknown format parameter
+ */
+function getFeedFormat(event: LambdaFunctionURLEvent): FeedFormat | null {
+  const format = event.queryStringParameters?.format;
+  if (format) {
+    return format === "rss" || format === "atom" || format === "json" ? format : null;
+  }
+
+  const accept = event.headers?.accept ?? "";
+  if (accept.includes("application/feed+json") || accept.includes("application/json")) {
+    return "json";
+  }
+  if (accept.includes("application/atom+xml")) {
+    return "atom";
+  }
+  return "rss";
+}
+
+/**
+ * Structured auction data for JSON Feed items (JSON Feed extension "_drazbe")
+ */
+function getJsonFeedExtension(auction: Auction) {
+  const centroid = auction.properties?.find((p) => p.valuation?.centroid)?.valuation?.centroid;
+
+  return {
+    auctionId: auction.auctionId,
+    dataSourceCode: auction.dataSourceCode,
+    type: auction.type,
+    price: auction.price ?? null,
+    estimatedValue: auction.estimatedValue ?? null,
+    priceToValueRatio: auction.priceToValueRatio ?? null,
+    dueDate: auction.dueDate ?? null,
+    drivingInfo: auction.drivingInfo ?? null,
+    centroid: centroid ? { ...centroid, ...GoogleMapsService.convertD96ToWGS84(centroid) } : null,
+    aiScore: auction.aiScore ?? null,
+    priceHistory: auction.priceHistory ?? [],
+    priceEstimate: auction.priceEstimate ?? null,
+  };
+}
+
+function textResponse(statusCode: number, body: string) {
+  return {
+    statusCode,
+    headers: {
+      "Content-Type": "text/plain",
+    },
+    body,
+  };
+}
 
 /**
  * RSS Feed Lambda - Returns auctions as an RSS feed
  * Exposed via Lambda Function URL through CloudFront
+ * - /rss - shared feed without user suitability
+ * - /rss/{feedToken} - personal feed of the user with that feed token
+ * Query parameters: minScore, maxDrivingMinutes, types, sources, maxPrice (see rssFeedQuerySchema)
+ * minScore and maxDrivingMinutes only on the personal feed
+ * Format: RSS 2.0 (default), Atom or JSON Feed - format=rss|atom|json or the Accept header
  */
-export async function handler() {
-  logger.log("Generating RSS feed");
+export async function handler(event: LambdaFunctionURLEvent) {
+  const format = getFeedFormat(event);
+  if (!format) {
+    return textResponse(400, "Invalid format, expected rss, atom or json");
+  }
+
+  const parsed = rssFeedQuerySchema.safeParse(event.queryStringParameters ?? {});
+  if (!parsed.success) {
+    return textResponse(
+      400,
+      `Invalid query parameters: ${parsed.error.issues.map((i) => `${i.path.join(".")} ${i.message}`).join(", ")}`
+    );
+  }
+
+  const tokenMatch = event.rawPath.match(/^\/rss\/([^/]+)\/?$/);
+  // Scores and driving times are per user, the shared feed would silently come back empty
+  if (!tokenMatch && (parsed.data.minScore != null || parsed.data.maxDrivingTime != null)) {
+    return textResponse(
+      400,
+      "minScore and maxDrivingMinutes require a personal feed (/rss/{token})"
+    );
+  }
 
   try {
-    const auctions = await AuctionRepository.getPublishedAuctions();
+    let profile: UserProfile | null = null;
+    if (tokenMatch) {
+      profile = await UserProfileRepository.getByFeedToken(decodeURIComponent(tokenMatch[1]));
+      if (!profile) {
+        return textResponse(404, "Feed not found");
+      }
+    }
+    const userId = profile?.userId;
+
+    // Scores are per user, the shared feed has none
+    const filter = {
+      ...parsed.data,
+      minScore: parsed.data.minScore ?? (profile ? FEED_MIN_SCORE : undefined),
+    };
+
+    logger.log("Generating RSS feed", { userId, filter, format });
+
+    // Auctions of properties the user rejected are left out of the personal feed
+    const notRejected = userId ? await PropertyFlagService.getNotRejectedFilter(userId) : null;
+
+    const { auctions } = await AuctionRepository.queryPublishedAuctions({
+      userId,
+      limit: FEED_LIMIT,
+      filterMain: (main) => AuctionQueryService.matchesMainRecord(main, filter),
+      filterAuction: (auction) =>
+        AuctionQueryService.matchesAuction(auction, filter) &&
+        (!notRejected || notRejected(auction)),
+    });
 
     logger.log("Auctions fetched for RSS feed", { count: auctions.length });
 
     const feed = new Feed({
-      title: "Dražbe AI - Nepremičninske dražbe",
+      title: profile ? `Dražbe AI - ${profile.name}` : "Dražbe AI - Nepremičninske dražbe",
       description: "AI-analizirane nepremičninske dražbe v Sloveniji",
       id: "https://drazbe.ai/",
       link: "https://drazbe.ai/",
@@ -49,11 +174,11 @@ export async function handler() {
       let imageUrl: string | undefined;
       if (auction.images && auction.images.length > 0) {
         imageUrl = auction.images[0].localUrl
-          ? `https://d2wwwmeai0nw0z.cloudfront.net/${auction.images[0].localUrl}`
+          ? toPublicUrl(auction.images[0].localUrl)
           : auction.images[0].sourceUrl;
       } else if (auction.properties && auction.properties.length > 0) {
         const propertyWithImage = auction.properties.find((p) => p.mapImageUrl);
-        imageUrl = `https://d2wwwmeai0nw0z.cloudfront.net/${propertyWithImage?.mapImageUrl}`;
+        imageUrl = propertyWithImage ? toPublicUrl(propertyWithImage.mapImageUrl) : undefined;
       }
 
       feed.addItem({
@@ -63,30 +188,29 @@ export async function handler() {
         description: html,
         date: pubDate,
         image: imageUrl,
+        // Structured data only in JSON Feed, RSS and Atom readers would show it as text
+        extensions:
+          format === "json" ? [{ name: "_drazbe", objects: getJsonFeedExtension(auction) }] : [],
       });
     }
 
-    const rss = feed.rss2();
+    const body = format === "atom" ? feed.atom1() : format === "json" ? feed.json1() : feed.rss2();
 
-    logger.log("RSS feed generated", { itemCount: auctions.length });
+    logger.log("RSS feed generated", { itemCount: auctions.length, format });
 
     return {
       statusCode: 200,
       headers: {
-        "Content-Type": "application/rss+xml; charset=utf-8",
-        "Cache-Control": "public, max-age=300",
+        "Content-Type": CONTENT_TYPES[format],
+        // Personal feeds must not be stored by CloudFront or shared caches
+        "Cache-Control": profile ? "private, max-age=300" : "public, max-age=300",
+        Vary: "Accept",
       },
-      body: rss,
+      body,
     };
   } catch (error) {
     logger.error("Failed to generate RSS feed", error);
 
-    return {
-      statusCode: 500,
-      headers: {
-        "Content-Type": "text/plain",
-      },
-      body: "Failed to generate RSS feed",
-    };
+    return textResponse(500, "Failed to generate RSS feed");
   }
 }
@@ -0,0 +1,36 @@
+import { DigestService } from "../services/DigestService.js";
+import { UserProfileRepository } from "../services/UserProfileRepository.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Digest Lambda - Runs daily
+ * Sends each user with an email address the auctions published since their last digest
+ */
+export async function handler() {
+  const profiles = await UserProfileRepository.getAll();
+  const recipients = profiles.filter((profile) => profile.email);
+
+  let sent = 0;
+  let failed = 0;
+  for (const profile of recipients) {
+    try {
+      if (await DigestService.sendDigest(profile)) {
+        sent++;
+      }
+    } catch (error) {
+      // Do not block the other users, lastDigestAt is not updated so nothing is lost
+      // The retried run only serves the failed users, the others are skipped by lastDigestAt
+      failed++;
+      logger.error("Failed to send digest", error, { userId: profile.userId });
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`Failed to send ${failed} of ${recipients.length} digests`);
+  }
+
+  return {
+    statusCode: 200,
+    body: `Digest completed. Sent ${sent} of ${recipients.length} digests.`,
+  };
+}
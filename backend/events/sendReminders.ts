@@ -0,0 +1,32 @@
+import { ReminderService } from "../services/ReminderService.js";
+import { UserProfileRepository } from "../services/UserProfileRepository.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Reminder Lambda - Runs daily in the morning
+ * Reminds each user about upcoming deadlines and viewings of their watched auctions
+ */
+export async function handler() {
+  const profiles = await UserProfileRepository.getAll();
+
+  let sent = 0;
+  let failed = 0;
+  for (const profile of profiles) {
+    try {
+      sent += await ReminderService.sendReminders(profile);
+    } catch (error) {
+      // Do not block the other users
+      failed++;
+      logger.error("Failed to send reminders", error, { userId: profile.userId });
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`Failed to send reminders for ${failed} of ${profiles.length} users`);
+  }
+
+  return {
+    statusCode: 200,
+    body: `Reminders completed. Sent ${sent} reminders.`,
+  };
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import { CadastralMunicipality } from "./types/CadastralMunicipality.js";
+import { CsvRow, parseCsv } from "./utils/parseCsv.js";
+
+/**
+ * Build cadastralMunicipalities.json from the GURS cadastral municipality code list
+ * (https://www.e-prostor.gov.si - šifrant katastrskih občin, CSV export)
+ *
+ * Usage: npm run import:ko -- <katastrske_obcine.csv>
+ *
+ * Column names differ between exports, so each column is looked up by several names.
+ */
+
+const COLUMNS = {
+  code: ["KO_ID", "SIFKO", "KO_SIFKO", "SIFRA_KO"],
+  name: ["KO_IME", "IMEKO", "IME_KO", "IME"],
+  municipality: ["OB_IME", "OBCINA", "IME_OBCINE", "OBCINA_IME"],
+  administrativeUnit: ["UE_IME", "UPRAVNA_ENOTA", "IME_UE", "UE"],
+};
+
+function get(row: CsvRow, column: keyof typeof COLUMNS): string | null {
+  for (const name of COLUMNS[column]) {
+    if (row[name]) {
+      return row[name];
+    }
+  }
+  return null;
+}
+
+async function main() {
+  const [inputPath] = process.argv.slice(2);
+  if (!inputPath) {
+    console.error("Uporaba: npm run import:ko -- <katastrske_obcine.csv>");
+    process.exit(1);
+  }
+
+  const registry = new Map<string, CadastralMunicipality>();
+  for (const row of parseCsv(fs.readFileSync(inputPath, "utf-8"))) {
+    const code = get(row, "code")?.replace(/^0+/, "");
+    const name = get(row, "name");
+    if (!code || !name) {
+      continue;
+    }
+    registry.set(code, {
+      code,
+      name,
+      municipality: get(row, "municipality"),
+      administrativeUnit: get(row, "administrativeUnit"),
+    });
+  }
+
+  const entries = Array.from(registry.values()).sort((a, b) => Number(a.code) - Number(b.code));
+  fs.writeFileSync(
+    "cadastralMunicipalities.json",
+    `[\n${entries.map((entry) => `  ${JSON.stringify(entry)}`).join(",\n")}\n]\n`
+  );
+  console.log(`Zapisanih ${entries.length} katastrskih občin v cadastralMunicipalities.json.`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,211 @@
+import fs from "fs";
+import { ComparableKind } from "./types/Comparable.js";
+import { EtnRepository, EtnTransactionRecord } from "./services/EtnRepository.js";
+import { logger } from "./utils/logger.js";
+import { CsvRow, parseCsv } from "./utils/parseCsv.js";
+
+/**
+ * Import market transactions from the ETN (evidenca trga nepremičnin) open data CSV export
+ * (https://www.e-prostor.gov.si - Evidenca trga nepremičnin, kupoprodajni posli)
+ *
+ * Usage: npm run import:etn -- <posli.csv> <delistavb.csv> <zemljisca.csv>
+ *
+ * Column names differ between export years, so each column is looked up by several names.
+ * Code lists (VRSTA_DELA_STAVBE, VRSTA_ZEMLJISCA) follow the ETN documentation - check them
+ * against the documentation of the imported export year.
+ */
+
+type Part = Omit<EtnTransactionRecord, "cellKey" | "saleKey">;
+
+/** Transaction is a market transaction (TRZNOST_POSLA) */
+const MARKET_TRANSACTION = "1";
+
+/** VRSTA_DELA_STAVBE -> kind (1 = house, 2 = apartment, 5 - 9 and 11 = commercial premises) */
+const BUILDING_PART_KINDS: Record<string, ComparableKind> = {
+  "1": "house",
+  "2": "apartment",
+  "5": "commercial",
+  "6": "commercial",
+  "7": "commercial",
+  "8": "commercial",
+  "9": "commercial",
+  "11": "commercial",
+};
+
+/** VRSTA_ZEMLJISCA -> kind (2 = building land, 3 = agricultural, 4 = forest) */
+const PARCEL_KINDS: Record<string, ComparableKind> = {
+  "2": "building_land",
+  "3": "agricultural",
+  "4": "forest",
+};
+
+const COLUMNS = {
+  transactionId: ["ID_POSLA"],
+  transactionPrice: ["POGODBENA_CENA_ODSKODNINA", "POGODBENA_CENA"],
+  date: ["DATUM_SKLENITVE_POGODBE", "DATUM_SKLENITVE"],
+  market: ["TRZNOST_POSLA"],
+  cadastralMunicipality: ["SIFRA_KO"],
+  buildingNumber: ["STEVILKA_STAVBE"],
+  buildingPartNumber: ["STEVILKA_DELA_STAVBE"],
+  parcelNumber: ["PARCELNA_STEVILKA", "STEVILKA_PARCELE"],
+  e: ["E_CENTROID"],
+  n: ["N_CENTROID"],
+  buildingPartKind: ["VRSTA_DELA_STAVBE"],
+  parcelKind: ["VRSTA_ZEMLJISCA"],
+  buildingPartArea: ["PRODANA_POVRSINA", "POVRSINA_DELA_STAVBE", "UPORABNA_POVRSINA"],
+  parcelArea: ["PRODANA_POVRSINA_PARCELE", "POVRSINA_PARCELE"],
+  buildingPartPrice: ["POGODBENA_CENA_DELA_STAVBE", "CENA_DELA_STAVBE"],
+  parcelPrice: ["POGODBENA_CENA_PARCELE", "CENA_PARCELE"],
+  yearBuilt: ["LETO_IZGRADNJE_DELA_STAVBE", "LETO_IZGRADNJE_STAVBE"],
+};
+
+function get(row: CsvRow, column: keyof typeof COLUMNS): string {
+  for (const name of COLUMNS[column]) {
+    if (row[name]) {
+      return row[name];
+    }
+  }
+  return "";
+}
+
+/**
+ * Parse a number with a decimal comma or point
+ */
+function getNumber(row: CsvRow, column: keyof typeof COLUMNS): number | null {
+  const value = get(row, column).replace(/\s/g, "");
+  if (!value) {
+    return null;
+  }
+  const number = Number(value.includes(",") ? value.replace(/\./g, "").replace(",", ".") : value);
+  return isNaN(number) ? null : number;
+}
+
+/**
+ * Parse a date in dd.mm.yyyy or yyyy-mm-dd format to yyyy-mm-dd
+ */
+function getDate(row: CsvRow): string | null {
+  const value = get(row, "date");
+  const match = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+  }
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null;
+}
+
+function readCsv(path: string): CsvRow[] {
+  const rows = parseCsv(fs.readFileSync(path, "utf-8"));
+  logger.log("ETN file read", { path, rows: rows.length });
+  return rows;
+}
+
+async function main() {
+  const [transactionsPath, buildingPartsPath, parcelsPath] = process.argv.slice(2);
+  if (!transactionsPath || !buildingPartsPath || !parcelsPath) {
+    console.error("Uporaba: npm run import:etn -- <posli.csv> <delistavb.csv> <zemljisca.csv>");
+    process.exit(1);
+  }
+
+  // Market transactions only - other transactions (e.g. between relatives) do not reflect the market
+  const transactions = new Map<string, { date: string; price: number | null }>();
+  for (const row of readCsv(transactionsPath)) {
+    const date = getDate(row);
+    if (get(row, "market") !== MARKET_TRANSACTION || !date) {
+      continue;
+    }
+    transactions.set(get(row, "transactionId"), {
+      date,
+      price: getNumber(row, "transactionPrice"),
+    });
+  }
+
+  const readParts = (
+    path: string,
+    getPart: (row: CsvRow) => Pick<Part, "kind" | "area" | "number" | "yearBuilt"> & {
+      price: number | null;
+    }
+  ) => {
+    const parts = readCsv(path)
+      .filter((row) => transactions.has(get(row, "transactionId")))
+      .map((row) => ({ row, part: getPart(row) }));
+    const partsPerTransaction = new Map<string, number>();
+    for (const { row } of parts) {
+      const transactionId = get(row, "transactionId");
+      partsPerTransaction.set(transactionId, (partsPerTransaction.get(transactionId) ?? 0) + 1);
+    }
+    return { parts, partsPerTransaction };
+  };
+
+  const buildingParts = readParts(buildingPartsPath, (row) => ({
+    kind: BUILDING_PART_KINDS[get(row, "buildingPartKind")] ?? null,
+    area: getNumber(row, "buildingPartArea"),
+    number: [get(row, "buildingNumber"), get(row, "buildingPartNumber")].filter(Boolean).join("/"),
+    yearBuilt: getNumber(row, "yearBuilt"),
+    price: getNumber(row, "buildingPartPrice"),
+  }));
+  const parcels = readParts(parcelsPath, (row) => ({
+    kind: PARCEL_KINDS[get(row, "parcelKind")] ?? null,
+    area: getNumber(row, "parcelArea"),
+    number: get(row, "parcelNumber") || null,
+    yearBuilt: null,
+    price: getNumber(row, "parcelPrice"),
+  }));
+
+  // Parts of a transaction with several parts have a price only if it is stated for the part,
+  // the transaction price of a single part transaction is the price of the part
+  const isSinglePart = (transactionId: string) =>
+    (buildingParts.partsPerTransaction.get(transactionId) ?? 0) +
+      (parcels.partsPerTransaction.get(transactionId) ?? 0) ===
+    1;
+
+  const records: Part[] = [];
+  for (const [prefix, { parts }] of [
+    ["S", buildingParts],
+    ["P", parcels],
+  ] as const) {
+    for (const { row, part } of parts) {
+      const transactionId = get(row, "transactionId");
+      const transaction = transactions.get(transactionId);
+      const price = part.price ?? (isSinglePart(transactionId) ? transaction.price : null);
+      const cadastralMunicipality = get(row, "cadastralMunicipality");
+      const e = getNumber(row, "e");
+      const n = getNumber(row, "n");
+      // Parts without KO and number have no stable ID, a re-import would add them again
+      if (
+        !part.kind ||
+        !part.area ||
+        !price ||
+        !e ||
+        !n ||
+        !cadastralMunicipality ||
+        !part.number
+      ) {
+        continue;
+      }
+      records.push({
+        transactionId,
+        partId: `${prefix}${cadastralMunicipality}-${part.number}`,
+        kind: part.kind,
+        date: transaction.date,
+        price,
+        area: part.area,
+        yearBuilt: part.yearBuilt,
+        e,
+        n,
+        cadastralMunicipality,
+        number: part.number,
+      });
+    }
+  }
+
+  logger.log("Importing ETN transactions", {
+    transactions: transactions.size,
+    parts: records.length,
+  });
+  await EtnRepository.save(records);
+  console.log(`Uvoženih ${records.length} prodanih delov iz ${transactions.size} tržnih poslov.`);
+}
+
+main().catch((error) => {
+  logger.error("ETN import failed", error);
+  process.exit(1);
+});
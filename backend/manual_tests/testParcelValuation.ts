@@ -1,16 +1,138 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
 import { GursValuationService } from "../services/GursValuationService.js";
+import { PropertyResolutionService } from "../services/PropertyResolutionService.js";
+
+/**
+ * Usage: npm run test:parcel-valuation [-- --record]
+ *
+ * Checks the search field mapping against the recorded GURS search responses in fixtures/,
+ * then fetches the live valuation. --record fetches the search responses again and overwrites
+ * the fixtures (run it when GURS changes the API, and commit the result).
+ */
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+const BASE_URL = "https://vrednotenje.gov.si/EV_Javni_Server/podatki";
+
+//509-372/6
+const query = {
+  type: "parcel" as const,
+  cadastralMunicipality: "509",
+  number: "372/6",
+  // cadastralMunicipality: "785",
+  // number: "430/2",
+};
+
+/** Building part searched by the same fields as GursValuationService */
+const buildingPartQuery = { cadastralMunicipality: "2637", building: "5", part: "1" };
+
+const recordings = [
+  {
+    name: "parcel",
+    file: "gursParcelSearch.json",
+    url: `${BASE_URL}/parcela/search?count=101&offset=0&parcela=${encodeURIComponent(query.number)}&koSifko=${query.cadastralMunicipality}`,
+    toCandidates: GursValuationService.toParcelCandidates,
+    cadastralMunicipality: query.cadastralMunicipality,
+    number: query.number,
+  },
+  {
+    name: "building part",
+    file: "gursBuildingPartSearch.json",
+    url: `${BASE_URL}/delStavbe/search?count=101&offset=0&koSifko=${buildingPartQuery.cadastralMunicipality}&stevStavbe=${buildingPartQuery.building}&stevDst=${buildingPartQuery.part}`,
+    toCandidates: GursValuationService.toBuildingPartCandidates,
+    cadastralMunicipality: buildingPartQuery.cadastralMunicipality,
+    number: `${buildingPartQuery.building}/${buildingPartQuery.part}`,
+  },
+];
+
+let failed = 0;
+
+function check(ok: boolean, message: string) {
+  if (!ok) {
+    failed++;
+  }
+  console.log(`${ok ? "OK  " : "FAIL"} ${message}`);
+}
+
+async function record() {
+  fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+  for (const recording of recordings) {
+    const response = await fetch(recording.url).then((r) => r.json());
+    fs.writeFileSync(
+      path.join(FIXTURES_DIR, recording.file),
+      JSON.stringify(response, null, 2) + "\n"
+    );
+    console.log(`Recorded ${recording.name} search: ${recording.file}`);
+  }
+}
+
+/**
+ * The mapped candidates must have the cadastral municipality and number of every search result,
+ * otherwise the resolver cannot tell the results apart
+ */
+function checkRecordedResponses() {
+  console.log("\n=== RECORDED SEARCH RESPONSES ===\n");
+  for (const recording of recordings) {
+    const fixturePath = path.join(FIXTURES_DIR, recording.file);
+    if (!fs.existsSync(fixturePath)) {
+      check(false, `${recording.name}: ${recording.file} missing, run with --record`);
+      continue;
+    }
+
+    const response = JSON.parse(fs.readFileSync(fixturePath, "utf-8"));
+    const candidates = recording.toCandidates(response);
+    check(
+      candidates.length > 0,
+      `${recording.name}: ${candidates.length} candidates from ${Array.isArray(response) ? response.length : 0} results`
+    );
+    for (const candidate of candidates) {
+      check(
+        candidate.cadastralMunicipality != null && candidate.number != null,
+        `${recording.name}: candidate ${candidate.cadastralMunicipality}-${candidate.number}`
+      );
+    }
+
+    const { resolution } = PropertyResolutionService.resolve(
+      recording.cadastralMunicipality,
+      recording.number,
+      candidates
+    );
+    check(
+      resolution.status === "exact",
+      `${recording.name}: ${recording.cadastralMunicipality}-${recording.number} resolved as ${resolution.status}`
+    );
+  }
+}
+
+/**
+ * Building land parcels (*15) and land parcels (15) with the same number are different parcels
+ */
+function checkBuildingLandParcels() {
+  console.log("\n=== BUILDING LAND PARCELS ===\n");
+  const candidates = ["15", "*15"].map((number) => ({
+    cadastralMunicipality: "784",
+    number,
+    item: number,
+  }));
+  for (const number of ["15", "*15"]) {
+    const { item, resolution } = PropertyResolutionService.resolve("784", number, candidates);
+    check(
+      item === number && resolution.status === "exact",
+      `784-${number} resolved as ${resolution.status} to ${item}`
+    );
+  }
+}
 
 async function test() {
-  //509-372/6
-  const query = {
-    type: "parcel" as const,
-    cadastralMunicipality: "509",
-    number: "372/6",
-    // cadastralMunicipality: "785",
-    // number: "430/2",
-  };
+  if (process.argv.includes("--record")) {
+    await record();
+  }
 
-  console.log("Fetching valuation data...\n");
+  checkRecordedResponses();
+  checkBuildingLandParcels();
+
+  console.log("\nFetching valuation data...\n");
 
   const result = await GursValuationService.getValuation(query, null);
 
@@ -38,6 +160,14 @@ async function test() {
   } else {
     console.error("Failed to retrieve valuation data");
   }
+
+  if (failed > 0) {
+    console.log(`\n${failed} checks failed`);
+    process.exit(1);
+  }
 }
 
-test().catch(console.error);
+test().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,361 @@
+import { PropertyKey } from "../types/PropertyIdentifier.js";
+import { normalizePropertyNumber, splitPropertyNumbers } from "../utils/normalizePropertyNumber.js";
+
+type TestCase = {
+  type: PropertyKey["type"];
+  cadastralMunicipality: string;
+  number: string;
+  /** Expected canonical number, null if the number must be rejected */
+  expected: string | null;
+  source: string;
+};
+
+/**
+ * Property numbers as they appear in announcements and in the extracted properties
+ */
+const cases: TestCase[] = [
+  // sodnedrazbe.si (sodneDrazbe.md): "ID nepremičnine: parcela 784 *15"
+  {
+    type: "parcel",
+    cadastralMunicipality: "784",
+    number: "parcela 784 *15",
+    expected: "*15",
+    source: "sodnedrazbe.si",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "784",
+    number: "*15",
+    expected: "*15",
+    source: "sodnedrazbe.si",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "784",
+    number: "784 204",
+    expected: "204",
+    source: "sodnedrazbe.si",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "784",
+    number: "206",
+    expected: "206",
+    source: "sodnedrazbe.si",
+  },
+
+  // Formats listed in the extraction prompt (auctionBaseSchema.properties)
+  { type: "parcel", cadastralMunicipality: "2242", number: "9", expected: "9", source: "prompt" },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "2242 9",
+    expected: "9",
+    source: "prompt",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "2242 536/6",
+    expected: "536/6",
+    source: "prompt",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "2242 536-6",
+    expected: "536/6",
+    source: "prompt",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "2242-536-6",
+    expected: "536/6",
+    source: "prompt",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "2242/536/6",
+    expected: "536/6",
+    source: "prompt",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "k.o. 2242 parc. 9",
+    expected: "9",
+    source: "prompt",
+  },
+  // "2242/9" can be a real parcel number, the KO prefix is only removed after a space
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "2242/9",
+    expected: "2242/9",
+    source: "prompt",
+  },
+
+  // Labels, stars, letter suffixes and leading zeros
+  {
+    type: "parcel",
+    cadastralMunicipality: "1385",
+    number: "parc. št. 536/6",
+    expected: "536/6",
+    source: "variant",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "1385",
+    number: "0536/06",
+    expected: "536/6",
+    source: "variant",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "1385",
+    number: " 536 / 6 ",
+    expected: "536/6",
+    source: "variant",
+  },
+
+  // Buildings and building parts
+  {
+    type: "building",
+    cadastralMunicipality: "2242",
+    number: "*123",
+    expected: "123/1",
+    source: "prompt",
+  },
+  {
+    type: "building",
+    cadastralMunicipality: "2242",
+    number: "123",
+    expected: "123/1",
+    source: "prompt",
+  },
+  {
+    type: "building",
+    cadastralMunicipality: "2242",
+    number: "123/1",
+    expected: "123/1",
+    source: "prompt",
+  },
+  {
+    type: "building_part",
+    cadastralMunicipality: "2242",
+    number: "2242-123-5",
+    expected: "123/5",
+    source: "variant",
+  },
+  {
+    type: "building_part",
+    cadastralMunicipality: "2242",
+    number: "del stavbe 123-5",
+    expected: "123/5",
+    source: "variant",
+  },
+  {
+    type: "building_part",
+    cadastralMunicipality: "2242",
+    number: "stavba 123, del 5",
+    expected: "123/5",
+    source: "variant",
+  },
+
+  // Impossible values
+  { type: "parcel", cadastralMunicipality: "2242", number: "", expected: null, source: "invalid" },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "glej prilogo",
+    expected: null,
+    source: "invalid",
+  },
+  { type: "parcel", cadastralMunicipality: "2242", number: "0", expected: null, source: "invalid" },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "536/0",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "1/2/3/4",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "1234567",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "536+537",
+    expected: null,
+    source: "invalid",
+  },
+  // Lists and suffixes must not be read as a different property
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "12 in 13",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "12 13",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "536 6",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "536/6, 536/7",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "1385",
+    number: "536/6a",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "št. 1.234",
+    expected: null,
+    source: "invalid",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "536/*6",
+    expected: null,
+    source: "invalid",
+  },
+];
+
+type SplitCase = Omit<TestCase, "expected"> & {
+  /** Expected canonical number of each listed property, null if it must be rejected */
+  expected: (string | null)[];
+};
+
+/**
+ * Lists of properties, each listed number is normalized separately
+ */
+const splitCases: SplitCase[] = [
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "536/6, 536/7",
+    expected: ["536/6", "536/7"],
+    source: "list",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "536/6; 537",
+    expected: ["536/6", "537"],
+    source: "list",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "parc. št. 12 in 13",
+    expected: ["12", "13"],
+    source: "list",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "k.o. 2242, parc. 9",
+    expected: ["9"],
+    source: "list",
+  },
+  {
+    type: "building_part",
+    cadastralMunicipality: "2242",
+    number: "stavba 123, del 5",
+    expected: ["123/5"],
+    source: "list",
+  },
+  // Not split, the separator is ambiguous - kept as given
+  {
+    type: "parcel",
+    cadastralMunicipality: "2242",
+    number: "12 13",
+    expected: [null],
+    source: "list",
+  },
+  {
+    type: "parcel",
+    cadastralMunicipality: "1385",
+    number: "536/6a, 536/7",
+    expected: [null, "536/7"],
+    source: "list",
+  },
+];
+
+/**
+ * Test the property number normalizer, exits with 1 if any case fails
+ */
+async function main() {
+  console.log(
+    `Testing property number normalizer (${cases.length + splitCases.length} cases)...\n`
+  );
+
+  let failed = 0;
+  for (const testCase of cases) {
+    const actual = normalizePropertyNumber(testCase);
+    const ok = actual === testCase.expected;
+    if (!ok) {
+      failed++;
+    }
+    console.log(
+      `${ok ? "OK  " : "FAIL"} [${testCase.source}] ${testCase.type} ${testCase.cadastralMunicipality} "${testCase.number}" -> ${actual} (expected ${testCase.expected})`
+    );
+  }
+
+  for (const testCase of splitCases) {
+    const actual = splitPropertyNumbers(testCase.number).map((number) =>
+      normalizePropertyNumber({ ...testCase, number })
+    );
+    const ok = JSON.stringify(actual) === JSON.stringify(testCase.expected);
+    if (!ok) {
+      failed++;
+    }
+    console.log(
+      `${ok ? "OK  " : "FAIL"} [${testCase.source}] ${testCase.type} ${testCase.cadastralMunicipality} "${testCase.number}" -> ${JSON.stringify(actual)} (expected ${JSON.stringify(testCase.expected)})`
+    );
+  }
+
+  const total = cases.length + splitCases.length;
+  console.log(`\n${total - failed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+import { AuctionRepository } from "./services/AuctionRepository.js";
+import { LotHistoryRecord, LotHistoryRepository } from "./services/LotHistoryRepository.js";
+import { PropertyFlagRecord, PropertyFlagRepository } from "./services/PropertyFlagRepository.js";
+import { PropertyKey } from "./types/PropertyIdentifier.js";
+import { generatePropertyId } from "./utils/generatePropertyId.js";
+import { logger } from "./utils/logger.js";
+
+/**
+ * Move keys saved before the property ID included the property type ({ko}-{number}) to the
+ * property ID ({type}#{ko}-{number}):
+ * - "property" GSI keys of PROPERTY records, so the property history includes them
+ * - property flags and lot history records
+ *
+ * The type is taken from the auction the flag or offering belongs to. If the auction has expired,
+ * the record is copied to both types, so it keeps matching as it did before.
+ * PROPERTY records keep their record keys - they expire with the auction, and removing them
+ * would delete their map images.
+ *
+ * Usage: npm run migrate:property-keys
+ */
+
+const BOTH_TYPES: PropertyKey["type"][] = ["parcel", "building_part"];
+
+const auctionTypes = new Map<string, Map<string, PropertyKey["type"][]>>();
+
+/**
+ * Property types of the legacy ID in the auction
+ * @param auctionId - Auction the record belongs to
+ * @param legacyId - {ko}-{number}
+ */
+async function getTypes(auctionId: string, legacyId: string): Promise<PropertyKey["type"][]> {
+  if (!auctionTypes.has(auctionId)) {
+    const types = new Map<string, PropertyKey["type"][]>();
+    const auction = await AuctionRepository.getById(auctionId);
+    for (const property of auction?.properties ?? []) {
+      if (!property.cadastralMunicipality || !property.number) {
+        continue;
+      }
+      const id = `${property.cadastralMunicipality.trim()}-${property.number.trim()}`;
+      types.set(id, [...(types.get(id) ?? []), property.type]);
+    }
+    auctionTypes.set(auctionId, types);
+  }
+
+  return auctionTypes.get(auctionId).get(legacyId) ?? BOTH_TYPES;
+}
+
+/**
+ * Property IDs of the legacy ID, one per property type
+ * @param auctionId - Auction the record belongs to
+ * @param legacyId - {ko}-{number}, the cadastral municipality code has no dash
+ */
+async function toPropertyIds(auctionId: string, legacyId: string): Promise<string[]> {
+  const separator = legacyId.indexOf("-");
+  const cadastralMunicipality = legacyId.slice(0, separator);
+  const number = legacyId.slice(separator + 1);
+  const types = await getTypes(auctionId, legacyId);
+  return Array.from(
+    new Set(types.map((type) => generatePropertyId({ type, cadastralMunicipality, number })))
+  );
+}
+
+function isLegacyId(id: string): boolean {
+  return !id.includes("#") && id.includes("-");
+}
+
+async function migrateFlags(): Promise<number> {
+  let migrated = 0;
+  for (const flag of await PropertyFlagRepository.getAll()) {
+    if (!isLegacyId(flag.propertyKey)) {
+      continue;
+    }
+    const propertyKeys = await toPropertyIds(flag.auctionId, flag.propertyKey);
+    const records: PropertyFlagRecord[] = propertyKeys.map((propertyKey) => ({
+      ...flag,
+      propertyKey,
+    }));
+    await PropertyFlagRepository.save(records);
+    await PropertyFlagRepository.remove(flag.userId, [flag.propertyKey]);
+    migrated++;
+  }
+  return migrated;
+}
+
+async function migrateLotHistory(): Promise<number> {
+  const legacy = (await LotHistoryRepository.getAll()).filter(
+    (record) =>
+      record.matchKey.startsWith("PROPERTY#") &&
+      isLegacyId(record.matchKey.slice("PROPERTY#".length))
+  );
+
+  for (const record of legacy) {
+    const propertyIds = await toPropertyIds(
+      record.auctionId,
+      record.matchKey.slice("PROPERTY#".length)
+    );
+    const records: LotHistoryRecord[] = propertyIds.map((propertyId) => ({
+      ...record,
+      matchKey: `PROPERTY#${propertyId}`,
+    }));
+    await LotHistoryRepository.save(records);
+  }
+  await LotHistoryRepository.remove(legacy);
+
+  return legacy.length;
+}
+
+async function main() {
+  const updated = await AuctionRepository.backfillPropertyPks();
+  console.log(`Posodobljenih ${updated} zapisov nepremičnin.`);
+
+  const flags = await migrateFlags();
+  console.log(`Posodobljenih ${flags} oznak nepremičnin.`);
+
+  const offerings = await migrateLotHistory();
+  console.log(`Posodobljenih ${offerings} zapisov zgodovine ponudb.`);
+}
+
+main().catch((error) => {
+  logger.error("Property key migration failed", error);
+  process.exit(1);
+});
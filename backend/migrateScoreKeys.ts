@@ -0,0 +1,17 @@
+import { UserSuitabilityRepository } from "./services/UserSuitabilityRepository.js";
+import { logger } from "./utils/logger.js";
+
+/**
+ * Add user suitability records published before the "score" GSI to it
+ *
+ * Usage: npm run migrate:score-keys
+ */
+async function main() {
+  const updated = await UserSuitabilityRepository.backfillScoreKeys();
+  console.log(`Posodobljenih ${updated} zapisov primernosti.`);
+}
+
+main().catch((error) => {
+  logger.error("Score key migration failed", error);
+  process.exit(1);
+});
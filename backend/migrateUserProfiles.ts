@@ -0,0 +1,59 @@
+import { SSMClient, GetParameterCommand } from "@aws-sdk/client-ssm";
+import { UserProfileRepository } from "./services/UserProfileRepository.js";
+import { logger } from "./utils/logger.js";
+
+/**
+ * Create the profile of the user the analysis was hardcoded for before user profiles
+ * Suitability records of that user are stored under the same userId, so they stay attached
+ *
+ * Usage: npm run migrate:user-profiles
+ *
+ * The home address is read from the former SSM parameter, which the stack keeps until this
+ * migration has run. The migration fails if the parameter is missing. An existing profile is
+ * left unchanged.
+ *
+ * The shared /rss feed no longer shows this user's suitability titles, subscribe to the personal
+ * feed printed at the end instead.
+ */
+
+const LEGACY_USER_ID = "marko";
+const LEGACY_HOME_ADDRESS_PARAM = "/drazbe-ai/home-address";
+/** Driving time cutoff of the former hardcoded criteria */
+const LEGACY_MAX_DRIVING_TIME_MINUTES = 110;
+
+async function getLegacyHomeAddress(): Promise<string> {
+  const result = await new SSMClient({}).send(
+    new GetParameterCommand({ Name: LEGACY_HOME_ADDRESS_PARAM })
+  );
+  if (!result.Parameter?.Value) {
+    throw new Error(`SSM parameter ${LEGACY_HOME_ADDRESS_PARAM} is empty`);
+  }
+  return result.Parameter.Value;
+}
+
+async function main() {
+  const existing = await UserProfileRepository.getById(LEGACY_USER_ID);
+  if (existing) {
+    console.log(`Profil ${LEGACY_USER_ID} že obstaja, ni sprememb.`);
+    return;
+  }
+
+  await UserProfileRepository.save({
+    userId: LEGACY_USER_ID,
+    name: "Marko",
+    homeAddress: await getLegacyHomeAddress(),
+    budget: null,
+    preferredPropertyTypes: [],
+    maxDrivingTimeMinutes: LEGACY_MAX_DRIVING_TIME_MINUTES,
+  });
+
+  const saved = await UserProfileRepository.getById(LEGACY_USER_ID);
+  console.log(`Profil ${LEGACY_USER_ID} ustvarjen, RSS: /rss/${saved?.feedToken}`);
+  // The shared feed showed this user's suitability titles before profiles
+  console.log("Deljeni vir /rss nima več ocen primernosti, naroči se na osebni vir zgoraj.");
+}
+
+main().catch((error) => {
+  logger.error("User profile migration failed", error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+import fs from "fs";
+import { UserProfileRepository } from "./services/UserProfileRepository.js";
+import { UserProfile } from "./types/UserProfile.js";
+import { logger } from "./utils/logger.js";
+
+/**
+ * Create or edit a user profile from a JSON file
+ *
+ * Usage: npm run profile:save -- <profile.json>
+ *
+ * The file contains UserProfile fields without timestamps. Fields missing in the file keep
+ * their current value when the profile already exists, so a file with only userId and the
+ * changed fields edits an existing profile.
+ */
+
+type ProfileInput = Partial<Omit<UserProfile, "createdAt" | "updatedAt">>;
+
+async function main() {
+  const [inputPath] = process.argv.slice(2);
+  if (!inputPath) {
+    console.error("Uporaba: npm run profile:save -- <profil.json>");
+    process.exit(1);
+  }
+
+  const input: ProfileInput = JSON.parse(fs.readFileSync(inputPath, "utf-8"));
+  if (!input.userId) {
+    console.error("Profil nima userId.");
+    process.exit(1);
+  }
+
+  const existing = await UserProfileRepository.getById(input.userId);
+  const profile = {
+    budget: null,
+    preferredPropertyTypes: [],
+    maxDrivingTimeMinutes: null,
+    ...existing,
+    ...input,
+  };
+  if (!profile.name || !profile.homeAddress) {
+    console.error("Profil mora imeti name in homeAddress.");
+    process.exit(1);
+  }
+
+  const { createdAt, updatedAt, ...rest } = profile as UserProfile;
+  await UserProfileRepository.save(rest);
+
+  const saved = await UserProfileRepository.getById(input.userId);
+  console.log(
+    `Profil ${input.userId} ${existing ? "posodobljen" : "ustvarjen"}, RSS: /rss/${saved?.feedToken}`
+  );
+}
+
+main().catch((error) => {
+  logger.error("Failed to save user profile", error);
+  process.exit(1);
+});
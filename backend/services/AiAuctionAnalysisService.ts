@@ -3,6 +3,9 @@ import { zodResponseFormat } from "openai/helpers/zod";
 import { logger } from "../utils/logger.js";
 import { config } from "../utils/config.js";
 import { auctionAnalysisSchema, AuctionAnalysis } from "../types/AuctionAnalysis.js";
+import { UserProfile } from "../types/UserProfile.js";
+import { SuitabilityCriteria } from "../types/SuitabilityCriteria.js";
+import { SuitabilityCriteriaService } from "./SuitabilityCriteriaService.js";
 
 export type { AuctionAnalysis };
 
@@ -20,7 +23,11 @@ async function getOpenAI(): Promise<OpenAI> {
   return openai;
 }
 
-const SYSTEM_PROMPT = `Si pomočnik za analizo nepremičninskih dražb v Sloveniji.
+/**
+ * Build the system prompt with the user's suitability criteria
+ */
+function buildSystemPrompt(criteria: SuitabilityCriteria): string {
+  return `Si pomočnik za analizo nepremičninskih dražb v Sloveniji.
 
 Analiziraj podani markdown dokument o dražbi nepremičnine in vrni:
 1. **aiGursValuationWarnings**:
@@ -32,32 +39,13 @@ Ali GURS vrednotenje smiselno odraža tržno vrednost nepremičnine? True če je
 Odstopanje -80% do +80% je običajno. Označi s 'true', če si prepričan, da gre za večjo napako.
 Označi s 'true' tudi, če ni GURS vrednotenja.
 
-3. **aiSuitability**: Ocena primernosti (0-10) z kratkim opisom. Format: "Ocena X, [vrsta (stanovanje, nezazidljiva parcela, hiša, ...)], [razlogi]", do 200 znakov.
-
-**Kriteriji za ocenjevanje:**
+Če je navedena "Pričakovana končna cena", je to ocena zmagovalne cene iz izidov podobnih preteklih dražb. Pri oceni ugodnosti upoštevaj njo namesto izklicne cene.
 
-Iščem ustrezno dražbo ne glede na to kaj se prodaja.
-
-K VIŠJI oceni prispeva:
-- Zazidljiva parcela nad 500 m²
-- Stanovanje/hiša je prazna (Prazno: Da)
-- Bližina (kratka vožnja)
-- Ugodna cena (negativen % pri "Relativna cena" = dobro). POZOR: Če je cena očitno previsoka ali podatki nesmiselni, ignoriraj ceno. -25% je srednje ugodno. Cena ni najpomembnejši faktor.
-- Zavezujoče ali nezavezujoče javno zbiranje ponudb
-- Klasična prodaja
-
-Podaj ocena 0 (neprimerno) vedno kadar:
-- Razdalja nad 110 minut vožnje
-- Parcele pod 400 m²
-- Solastniški delež manjši od 100%
+3. **aiSuitability**: Ocena primernosti (0-10) z kratkim opisom. Format: "Ocena X, [vrsta (stanovanje, nezazidljiva parcela, hiša, ...)], [razlogi]", do 200 znakov.
 
-Podaj ocena 10 (zelo primerno) kadar:
-- Stanovanje/hiša je prazna (Prazno: Da)
-- Klasična prodaja do 60 minut vožnje
-- Zavezujoče ali nezavezujoče javno zbiranje ponudb do 60 minut vožnje
-- Namera o prodaji do 60 minut vožnje
-- Neposredna pogodba do 60 minut vožnje
+4. **aiScore**: Ocena primernosti kot število (0-10), enaka oceni X v aiSuitability.
 
+${SuitabilityCriteriaService.formatCriteriaPrompt(criteria)}
 **Primeri aiSuitability:**
 - "Ocena 10, stanovanje Ljubljana, letnik 2000, zelo blizu, ugodna cena"
 - "Ocena 5, zazidljiva parcela pri Mariboru, daleč, sorazmerno ugodna cena"
@@ -65,21 +53,29 @@ Podaj ocena 10 (zelo primerno) kadar:
 - "Ocena 0, zelo majhna nezazidljiva parcela"
 - "Ocena 3, hiša pri Jesenicah, letnik 1900, srednja razdalja"
 `;
+}
 
 /**
  * Analyze auction markdown and produce AI-generated title, warning, and suitability assessment
+ * @param auctionMarkdown - Auction formatted with AuctionMarkdownService (with the user's driving info)
+ * @param profile - The user the suitability is assessed for (default criteria if omitted)
  */
-async function analyzeAuction(auctionMarkdown: string): Promise<AuctionAnalysis> {
+async function analyzeAuction(
+  auctionMarkdown: string,
+  profile?: UserProfile
+): Promise<AuctionAnalysis> {
   logger.log("Analyzing auction with AI", {
     markdownLength: auctionMarkdown.length,
+    userId: profile?.userId,
   });
 
   const client = await getOpenAI();
+  const systemPrompt = buildSystemPrompt(SuitabilityCriteriaService.getCriteria(profile));
 
   const completion = await client.chat.completions.create({
     model: "gpt-5.2",
     messages: [
-      { role: "system", content: SYSTEM_PROMPT },
+      { role: "system", content: systemPrompt },
       { role: "user", content: auctionMarkdown },
     ],
     response_format: zodResponseFormat(auctionAnalysisSchema, "auction_analysis"),
@@ -95,6 +91,7 @@ async function analyzeAuction(auctionMarkdown: string): Promise<AuctionAnalysis>
 
   logger.log("Auction analysis complete", {
     aiSuitability: result.aiSuitability.substring(0, 50),
+    aiScore: result.aiScore,
     warningsCount: result.aiGursValuationWarnings.length,
   });
 
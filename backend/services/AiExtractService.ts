@@ -14,15 +14,25 @@ import { GursValuationService } from "./GursValuationService.js";
 import { ProstorService } from "./ProstorService.js";
 import { S3Service } from "./S3Service.js";
 import { DocumentService } from "./DocumentService.js";
+import { LotHistoryService } from "./LotHistoryService.js";
+import { PriceEstimateService } from "./PriceEstimateService.js";
+import { ComparablesService } from "./ComparablesService.js";
+import { CadastralMunicipalityService } from "./CadastralMunicipalityService.js";
+import { PriceRatioService } from "./PriceRatioService.js";
+import { ValuationAggregationService } from "./ValuationAggregationService.js";
 import { Source } from "../types/Source.js";
 import { AuctionBase, auctionsBaseSchema } from "../types/AuctionBase.js";
-import { Auction, AuctionProperty } from "../types/Auction.js";
+import { Auction, AuctionProperty, AuctionPropertyValuation } from "../types/Auction.js";
+import { PropertyResolution } from "../types/PropertyResolution.js";
 import { linksSchema, Link } from "../types/Link.js";
 import { DocumentResult, ExtractedPhoto } from "../types/DocumentResult.js";
 import { AuctionQueueMessage } from "../types/QueueMessages.js";
 import { logger } from "../utils/logger.js";
 import { config } from "../utils/config.js";
 import { PropertyKey } from "../types/PropertyIdentifier.js";
+import { generateAuctionId } from "../utils/generateAuctionId.js";
+import { generatePropertyId } from "../utils/generatePropertyId.js";
+import { normalizePropertyNumber, splitPropertyNumbers } from "../utils/normalizePropertyNumber.js";
 
 const sqsClient = new SQSClient({});
 const AUCTION_QUEUE_URL = process.env.AUCTION_QUEUE_URL;
@@ -718,36 +728,8 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
       // Fetch valuations for each property
       let properties: AuctionProperty[] | null = await processProperties(auction);
 
-      // Calculate price to value ratio (Relativna cena) as discount percentage
-      const price = auction.price;
-      const estimatedValue = auction.estimatedValue;
-
-      // Calculate discount from estimated value (higher = better deal)
-      let toEstimatedValue: number | null = null;
-      if (price !== null && estimatedValue !== null && estimatedValue > 0) {
-        toEstimatedValue = Math.round(((estimatedValue - price) / estimatedValue) * 100);
-      }
-
-      // Calculate discount from sum of property valuations
-      let toPropertyValuations: number | null = null;
-      let totalPropertyValuation: number | null = null;
-      let valuationsReducedByOwnershipShare = false;
-      if (price !== null && properties && properties.length > 0) {
-        const totalValuation = properties.reduce((sum, prop) => {
-          if (prop.valuation && "value" in prop.valuation) {
-            return sum + prop.valuation.value;
-          }
-          return sum;
-        }, 0);
-        if (totalValuation > 0) {
-          totalPropertyValuation = totalValuation;
-          toPropertyValuations = Math.round(((totalValuation - price) / totalValuation) * 100);
-        }
-        // Check if any valuation was reduced by ownership share
-        valuationsReducedByOwnershipShare = properties.some(
-          (prop) => prop.valuation?.reducedByOwnershipShare === true
-        );
-      }
+      // Calculate price to value ratio (Relativna cena) and unit metrics
+      const priceToValueRatio = PriceRatioService.calculate(auction, properties);
 
       const result: Auction = {
         announcementId: auction.announcementId,
@@ -756,16 +738,23 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
         aiWarning: auction.aiWarning,
         aiGursValuationMakesSense: null,
         aiSuitability: null,
+        aiScore: null,
         type: auction.type,
         isVacant: auction.isVacant,
         publicationDate: auction.publicationDate,
+        caseNumber: auction.caseNumber,
         dueDate: auction.dueDate,
+        auctionRound: auction.auctionRound,
+        viewingDates: auction.viewingDates ?? [],
         description: auction.description,
         location: auction.location,
-        price: price,
-        estimatedValue: estimatedValue,
+        municipality:
+          auction.municipality ?? properties?.find((p) => p.municipality)?.municipality ?? null,
+        price: auction.price,
+        estimatedValue: auction.estimatedValue,
         ownershipShare: auction.ownershipShare,
         yearBuilt: auction.yearBuilt,
+        isHouse: auction.isHouse,
         dataSourceCode: dataSource.code,
         urlSources: [announcementUrl],
         properties: properties,
@@ -787,12 +776,7 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
             sourceUrl: img.sourceUrl,
           })) ?? []),
         ],
-        priceToValueRatio: {
-          toEstimatedValue,
-          toPropertyValuations,
-          totalPropertyValuation,
-          valuationsReducedByOwnershipShare,
-        },
+        priceToValueRatio,
         drivingInfo: null,
         publishedAt: null,
       };
@@ -874,6 +858,31 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
         });
       }
 
+      // Match earlier offerings of the same lot (relistings) by property keys and case number
+      try {
+        const auctionId = generateAuctionId(
+          dataSource.code,
+          announcementUrl,
+          result.announcementId || "unknown"
+        );
+        result.priceHistory = await LotHistoryService.recordOffering(auctionId, result);
+      } catch (historyErr) {
+        logger.warn("Failed to match lot history", historyErr, {
+          dataSourceCode: dataSource.code,
+          title: result.title,
+        });
+      }
+
+      // Expected final price from historical outcomes of similar auctions
+      try {
+        result.priceEstimate = await PriceEstimateService.estimate(result);
+      } catch (estimateErr) {
+        logger.warn("Failed to estimate final price", estimateErr, {
+          dataSourceCode: dataSource.code,
+          title: result.title,
+        });
+      }
+
       // Save to DynamoDB
       await AuctionRepository.save(result);
       results.push(result);
@@ -918,11 +927,34 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
     const seen = new Set<string>();
     const buildings: PropertyKey[] = [];
 
-    for (const property of auction.properties) {
-      property.number = property.number.trim().replace(/[- ]/g, "/");
+    // A property with a list of numbers ("536/6, 536/7") is one property per number
+    const listed = auction.properties.flatMap((property) =>
+      splitPropertyNumbers(property.number).map((number) => ({ ...property, number }))
+    );
+
+    for (const property of listed) {
+      // Announcements often give the KO name (e.g. "k.o. Podborš") instead of the code
+      property.cadastralMunicipality = CadastralMunicipalityService.normalizeCode(
+        property.cadastralMunicipality
+      );
 
-      // Skip duplicates based on cadastralMunicipality and number
-      const key = `${property.cadastralMunicipality}-${property.number}`;
+      // Canonical number, so duplicates in different formats are detected
+      const number = normalizePropertyNumber(property);
+      if (!number) {
+        // Kept as given, without the valuation - a guessed number would value another property
+        logger.warn("Property number not normalized, valuation skipped", {
+          dataSourceCode: dataSource.code,
+          propertyType: property.type,
+          cadastralMunicipality: property.cadastralMunicipality,
+          number: property.number,
+        });
+        properties.push({ ...property, resolution: { status: "unnormalized" } });
+        continue;
+      }
+      property.number = number;
+
+      // Skip duplicates based on the property ID (type, cadastralMunicipality and number)
+      const key = generatePropertyId(property);
       if (seen.has(key)) {
         logger.log("Skipping duplicate property", {
           dataSourceCode: dataSource.code,
@@ -935,22 +967,34 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
       seen.add(key);
 
       // if more then 10 properties, skip processing to avoid timeout
-      if (auction.properties.length > 10) {
+      if (listed.length > 10) {
         continue;
       }
       const ownershipShare = property.ownershipShare ?? auction.ownershipShare;
-      const valuation = await fetchPropertyValuation(property, ownershipShare);
+      const { valuation, resolution } = await fetchPropertyValuation(property, ownershipShare);
       const prostorData = await processPropertyProstor(property, valuation);
 
       if (prostorData?.buildings?.length > 0) {
         buildings.push(...prostorData.buildings);
       }
 
-      properties.push({ ...property, valuation, mapImageUrl: prostorData?.mapImageUrl });
+      properties.push({
+        ...property,
+        valuation,
+        resolution,
+        mapImageUrl: prostorData?.mapImageUrl,
+        // Buildings on the parcel, so overlapping valuations are not summed
+        buildingNumbers:
+          (valuation?.type ?? property.type) === "parcel"
+            ? prostorData?.buildings.map((building) =>
+                ValuationAggregationService.getBuildingNumber(building.number)
+              )
+            : undefined,
+      });
     }
 
     // če gre za hišo na poralu sodnedrazbe.si pogoste ne vključujejo oznako stavbe, zato poskusimo zajeti še stavbo iz prostor.si
-    if (auction.isHouse && auction.properties.length <= 10) {
+    if (auction.isHouse && listed.length <= 10) {
       // find buiding or building_part properties
       const hasBuilding = properties.some(
         (p) => p.type === "building" || p.type === "building_part"
@@ -963,15 +1007,19 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
         // Process all buildings found on parcels
         for (const buildingKey of buildings) {
           // check if seen
-          const key = `${buildingKey.cadastralMunicipality}-${buildingKey.number}`;
+          const key = generatePropertyId(buildingKey);
           if (!seen.has(key)) {
             seen.add(key);
-            const valuation = await fetchPropertyValuation(buildingKey, ownershipShare);
+            const { valuation, resolution } = await fetchPropertyValuation(
+              buildingKey,
+              ownershipShare
+            );
             const prostorData = await processPropertyProstor(buildingKey, valuation);
 
             properties.push({
               ...buildingKey,
               valuation,
+              resolution,
               mapImageUrl: prostorData?.mapImageUrl,
             });
           }
@@ -979,6 +1027,32 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
       }
     }
 
+    // KO name and municipality from the registry
+    for (const property of properties) {
+      const ko = CadastralMunicipalityService.getByCode(property.cadastralMunicipality);
+      if (ko) {
+        property.cadastralMunicipalityName = ko.name;
+        // Registry entries imported without the občina leave it unset
+        if (ko.municipality) {
+          property.municipality = ko.municipality;
+        }
+      }
+    }
+
+    // Comparable sales from the ETN open dataset (requires the valuation centroid)
+    for (const property of properties) {
+      try {
+        property.comparables = (await ComparablesService.findComparables(property)) ?? undefined;
+      } catch (error) {
+        logger.warn("Failed to find comparable sales", {
+          dataSourceCode: dataSource.code,
+          cadastralMunicipality: property.cadastralMunicipality,
+          number: property.number,
+          error,
+        });
+      }
+    }
+
     return properties;
   }
 
@@ -1043,10 +1117,10 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
       number: string;
     },
     ownershipShare: number | null
-  ) {
+  ): Promise<{ valuation?: AuctionPropertyValuation; resolution?: PropertyResolution }> {
     try {
-      const valuation =
-        (await GursValuationService.getValuation(property, ownershipShare)) ?? undefined;
+      const result = await GursValuationService.resolveValuation(property, ownershipShare);
+      const valuation = result.valuation ?? undefined;
       if (valuation) {
         logger.log("Property valuation fetched", {
           dataSourceCode: dataSource.code,
@@ -1055,8 +1129,16 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
           number: property.number,
           value: "value" in valuation ? valuation.value : undefined,
         });
+      } else if (result.resolution.status === "ambiguous") {
+        logger.warn("Property is ambiguous, valuation not used", {
+          dataSourceCode: dataSource.code,
+          propertyType: property.type,
+          cadastralMunicipality: property.cadastralMunicipality,
+          number: property.number,
+          candidates: result.resolution.candidates,
+        });
       }
-      return valuation;
+      return { valuation, resolution: result.resolution };
     } catch (valuationErr) {
       logger.warn("Failed to fetch valuation for property", {
         dataSourceCode: dataSource.code,
@@ -1065,7 +1147,7 @@ async function processAuction(objava: Link, dataSource: Source): Promise<Auction
         number: property.number,
         error: valuationErr instanceof Error ? valuationErr.message : String(valuationErr),
       });
-      return undefined;
+      return {};
     }
   }
 }
@@ -0,0 +1,62 @@
+import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { config } from "../utils/config.js";
+import { auctionOutcomeSchema, AuctionOutcomeExtraction } from "../types/AuctionOutcome.js";
+
+let openai: OpenAI | undefined;
+
+/**
+ * Get or create the OpenAI client instance (singleton pattern)
+ * Uses API key from config (SSM in Lambda, .env locally)
+ */
+async function getOpenAI(): Promise<OpenAI> {
+  if (!openai) {
+    const apiKey = await config.get("/drazbe-ai/openai-api-key");
+    openai = new OpenAI({ apiKey });
+  }
+  return openai;
+}
+
+/**
+ * Read the outcome of an auction from its announcement after the deadline
+ * (e.g. sodnedrazbe.si publication, municipal "obvestilo o izidu")
+ * @param markdown - Current content of the announcement
+ * @param auction - The auction whose outcome is looked for
+ */
+async function extractOutcome(
+  markdown: string,
+  auction: { title: string; dueDate: string; price: number | null }
+): Promise<AuctionOutcomeExtraction> {
+  const openaiClient = await getOpenAI();
+  const response = await openaiClient.chat.completions.parse({
+    model: "gpt-5.2",
+    messages: [
+      {
+        role: "system",
+        content: `Iz objave ugotovi izid dražbe ali prodaje nepremičnine po izteku roka.
+
+Dražba: ${auction.title}
+Rok: ${auction.dueDate}
+Izklicna cena: ${auction.price != null ? `${auction.price} €` : "ni podatka"}
+
+## PRAVILA
+- Izid določi samo, če je v besedilu izrecno naveden (npr. "obvestilo o izidu", "prodano", "dražba je bila neuspešna", "preklic", "preložitev")
+- Besedilo, ki le ponavlja pogoje dražbe, ne pove izida - označi 'unknown'
+- Dosežena cena je cena, po kateri je bila nepremičnina prodana, ne izklicna cena
+- Če objava govori o drugi dražbi, označi 'unknown'
+`,
+      },
+      {
+        role: "user",
+        content: markdown,
+      },
+    ],
+    response_format: zodResponseFormat(auctionOutcomeSchema, "auction_outcome"),
+  });
+
+  return response.choices[0].message.parsed!;
+}
+
+export const AiOutcomeService = {
+  extractOutcome,
+};
@@ -0,0 +1,94 @@
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { ArchivedAuction, ArchivedOutcome } from "../types/ArchivedAuction.js";
+import { logger } from "../utils/logger.js";
+
+const BUCKET_NAME = process.env.ARCHIVE_BUCKET_NAME || "";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+const AUCTIONS_PREFIX = "auctions";
+const OUTCOMES_PREFIX = "outcomes";
+
+const s3Client = new S3Client({});
+
+/**
+ * S3 key of an archived item, Hive-style partitioned by month for Athena
+ * The month is the month of the dueDate (the fallback timestamp if there is none),
+ * e.g. auctions/year=2025/month=03/sodnedrazbe%23abc123.json
+ */
+function getKey(
+  prefix: string,
+  auctionId: string,
+  dueDate: string | null | undefined,
+  fallback: string
+): string {
+  const date = dueDate && !isNaN(Date.parse(dueDate)) ? dueDate : fallback;
+  const [year, month] = date.slice(0, 7).split("-");
+  return `${prefix}/year=${year}/month=${month}/${encodeURIComponent(auctionId)}.json`;
+}
+
+/**
+ * Write an item as a single JSON line (JSON Lines, readable by Athena), overwriting it
+ */
+async function put(key: string, auctionId: string, item: unknown): Promise<void> {
+  if (LOCAL_STORAGE) {
+    logger.logContent(
+      "Archived (local storage)",
+      { auctionId, key },
+      {
+        content: JSON.stringify(item, null, 2),
+        prefix: "archive",
+        suffix: auctionId.replace(/[^a-zA-Z0-9-]/g, "-"),
+        extension: "json",
+      }
+    );
+    return;
+  }
+
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      Body: JSON.stringify(item) + "\n",
+      ContentType: "application/x-ndjson",
+    })
+  );
+}
+
+/**
+ * Save the archived auction
+ * @returns S3 key of the archived auction
+ */
+async function save(auction: ArchivedAuction): Promise<string> {
+  const key = getKey(AUCTIONS_PREFIX, auction.auctionId, auction.dueDate, auction.archivedAt);
+  logger.log("Archiving auction", {
+    auctionId: auction.auctionId,
+    key,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  await put(key, auction.auctionId, auction);
+
+  logger.log("Auction archived", { auctionId: auction.auctionId, key });
+  return key;
+}
+
+/**
+ * Save the outcome of an auction (usually known only after the auction has been archived)
+ * @returns S3 key of the archived outcome
+ */
+async function saveOutcome(outcome: ArchivedOutcome): Promise<string> {
+  const key = getKey(OUTCOMES_PREFIX, outcome.auctionId, outcome.dueDate, outcome.checkedAt);
+  logger.log("Archiving auction outcome", {
+    auctionId: outcome.auctionId,
+    status: outcome.status,
+    key,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  await put(key, outcome.auctionId, outcome);
+  return key;
+}
+
+export const ArchiveRepository = {
+  save,
+  saveOutcome,
+};
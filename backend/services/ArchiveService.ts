@@ -0,0 +1,68 @@
+import { ArchivedAuction, ArchivedSuitability } from "../types/ArchivedAuction.js";
+import { AuctionMainRecord } from "../types/dynamoDb/index.js";
+import { logger } from "../utils/logger.js";
+import { ArchiveRepository } from "./ArchiveRepository.js";
+import { AuctionRepository } from "./AuctionRepository.js";
+import { UserProfileRepository } from "./UserProfileRepository.js";
+import { UserSuitabilityRepository } from "./UserSuitabilityRepository.js";
+
+/**
+ * Suitabilities of the auction for all users
+ */
+async function getSuitabilities(auctionId: string): Promise<ArchivedSuitability[]> {
+  const suitabilities: ArchivedSuitability[] = [];
+  for (const profile of await UserProfileRepository.getAll()) {
+    const record = await UserSuitabilityRepository.getByAuctionId(profile.userId, auctionId);
+    if (!record) {
+      continue;
+    }
+    suitabilities.push({
+      userId: profile.userId,
+      aiSuitability: record.aiSuitability,
+      aiScore: record.aiScore ?? null,
+      ruleScore: record.ruleScore,
+      ruleScoreBreakdown: record.ruleScoreBreakdown,
+      scoreDisagreement: record.scoreDisagreement,
+      drivingInfo: record.drivingInfo ?? null,
+      publishedAt: record.publishedAt ?? null,
+    });
+  }
+  return suitabilities;
+}
+
+/**
+ * Archive an auction whose MAIN record has expired (TTL), so the data stays available for history
+ * and analytics after it is removed from the auction table
+ * @param main - MAIN record from the REMOVE stream event
+ * @returns S3 key of the archived auction
+ */
+async function archiveAuction(main: AuctionMainRecord): Promise<string> {
+  const { auctionId } = main;
+
+  const { aiSuitability, aiScore, drivingInfo, ...auction } =
+    await AuctionRepository.getExpiredAuction(main);
+
+  const archived: ArchivedAuction = {
+    ...auction,
+    suitabilities: await getSuitabilities(auctionId),
+    createdAt: main.createdAt,
+    archivedAt: new Date().toISOString(),
+  };
+
+  const key = await ArchiveRepository.save(archived);
+
+  logger.log("Expired auction archived", {
+    auctionId,
+    key,
+    properties: archived.properties?.length ?? 0,
+    documents: archived.documents.length,
+    images: archived.images?.length ?? 0,
+    suitabilities: archived.suitabilities.length,
+  });
+
+  return key;
+}
+
+export const ArchiveService = {
+  archiveAuction,
+};
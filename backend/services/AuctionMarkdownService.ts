@@ -1,6 +1,11 @@
 import { Auction } from "../types/dynamoDb/index.js";
 import { DataSourceService } from "./DataSourceService.js";
 import { GoogleMapsService } from "./GoogleMapsService.js";
+import { LotHistoryService } from "./LotHistoryService.js";
+import { PriceEstimateService } from "./PriceEstimateService.js";
+import { PropertyResolutionService } from "./PropertyResolutionService.js";
+import { ValuationAggregationService } from "./ValuationAggregationService.js";
+import { toPublicUrl } from "../utils/publicUrl.js";
 
 /**
  * Format auction data as nicely formatted markdown
@@ -14,10 +19,14 @@ function formatAuctionMarkdown(auction: Auction): string {
   lines.push(`# ${auction.aiTitle || auction.title}`);
   lines.push("");
 
-  // AI Warning (if present)
-  if (auction.aiWarning && auction.aiWarning.length > 0) {
+  // AI Warning and properties not matched to a single GURS record or number (if present)
+  const resolutionWarnings = (auction.properties ?? [])
+    .filter((p) => p.resolution?.status === "ambiguous" || p.resolution?.status === "unnormalized")
+    .map((p) => PropertyResolutionService.formatWarning(p, p.resolution));
+  const warnings = [...(auction.aiWarning ?? []), ...resolutionWarnings];
+  if (warnings.length > 0) {
     lines.push("> **Opozorila:**");
-    for (const warning of auction.aiWarning) {
+    for (const warning of warnings) {
       lines.push(`> - ${warning}`);
     }
     lines.push("");
@@ -48,6 +57,7 @@ function formatAuctionMarkdown(auction: Auction): string {
 
   if (auction.publicationDate) lines.push(`- **Datum objave:** ${auction.publicationDate}`);
   if (auction.dueDate) lines.push(`- **Rok:** ${auction.dueDate}`);
+  if (auction.viewingDates?.length) lines.push(`- **Ogled:** ${auction.viewingDates.join(", ")}`);
   if (auction.location) lines.push(`- **Lokacija:** ${auction.location}`);
   if (drivingInfo != null) {
     const hours = Math.floor(drivingInfo.drivingTimeMinutes / 60);
@@ -73,6 +83,12 @@ function formatAuctionMarkdown(auction: Auction): string {
   }
 
   if (auction.price) lines.push(`- **Cena:** ${auction.price.toLocaleString("sl-SI")} €`);
+  for (const entry of auction.priceHistory ?? []) {
+    const link = entry.url ? ` ([objava](${entry.url}))` : "";
+    lines.push(`- **${LotHistoryService.formatPriceHistoryEntry(entry)}**${link}`);
+  }
+  if (auction.priceEstimate)
+    lines.push(`- **${PriceEstimateService.formatPriceEstimate(auction.priceEstimate)}**`);
   if (auction.estimatedValue)
     lines.push(`- **Ocenjena vrednost:** ${auction.estimatedValue.toLocaleString("sl-SI")} €`);
   if (auction.priceToValueRatio.totalPropertyValuation) {
@@ -83,6 +99,21 @@ function formatAuctionMarkdown(auction: Auction): string {
       `- **GURS vrednotenje:** ${auction.priceToValueRatio.totalPropertyValuation.toLocaleString("sl-SI")} €${reducedNote}`
     );
   }
+  // Which valuations make the GURS total and why (only if there is more than one)
+  const valuationComponents = auction.priceToValueRatio.valuationComponents ?? [];
+  if (valuationComponents.length > 1 && auction.priceToValueRatio.totalPropertyValuation) {
+    for (const component of valuationComponents) {
+      const typeLabel = component.type === "parcel" ? "" : "*";
+      const value = component.value != null ? `${component.value.toLocaleString("sl-SI")} €` : "-";
+      const share =
+        component.reducedByOwnershipShare && component.ownershipShare
+          ? ` (${component.ownershipShare}%)`
+          : "";
+      lines.push(
+        `  - ${component.cadastralMunicipality}-${typeLabel}${component.number}: ${value}${share} - ${ValuationAggregationService.formatReason(component.reason)}`
+      );
+    }
+  }
   if (auction.ownershipShare) lines.push(`- **Delež lastništva:** ${auction.ownershipShare}%`);
   if (auction.yearBuilt) lines.push(`- **Leto izgradnje:** ${auction.yearBuilt}`);
 
@@ -98,18 +129,27 @@ function formatAuctionMarkdown(auction: Auction): string {
 
   // Price to value ratio section (Relativna cena)
   const { toEstimatedValue, toPropertyValuations } = auction.priceToValueRatio;
-  if (toEstimatedValue !== null || toPropertyValuations !== null) {
+  const toComparables = auction.priceToValueRatio.toComparables ?? null;
+  const { pricePerM2, buildingArea, landArea, gursLandValuePerM2, gursBuildingValuePerM2 } =
+    auction.priceToValueRatio;
+  if (
+    toEstimatedValue !== null ||
+    toPropertyValuations !== null ||
+    toComparables !== null ||
+    pricePerM2 != null
+  ) {
     lines.push("");
     lines.push("### Relativna cena");
     lines.push("");
 
     // Determine which discount is higher (better deal)
-    const estHigher =
-      toEstimatedValue !== null &&
-      (toPropertyValuations === null || toEstimatedValue >= toPropertyValuations);
+    const bestDiscount = Math.max(
+      ...[toEstimatedValue, toPropertyValuations, toComparables].filter((value) => value !== null)
+    );
+    const estHigher = toEstimatedValue !== null && toEstimatedValue === bestDiscount;
     const valHigher =
-      toPropertyValuations !== null &&
-      (toEstimatedValue === null || toPropertyValuations > toEstimatedValue);
+      !estHigher && toPropertyValuations !== null && toPropertyValuations === bestDiscount;
+    const compHigher = !estHigher && !valHigher && toComparables === bestDiscount;
 
     // Check if all properties have GURS valuation
     const totalProperties = auction.properties?.length || 0;
@@ -137,6 +177,31 @@ function formatAuctionMarkdown(auction: Auction): string {
         `- ${prefixBold}Glede na GURS posplošeno vrednost: ${formatPercent(toPropertyValuations)}%${suffix}${partialNote}`
       );
     }
+    if (toComparables !== null) {
+      const suffix = compHigher ? "**" : "";
+      const prefixBold = compHigher ? "**" : "";
+      lines.push(
+        `- ${prefixBold}Glede na primerljive prodaje (ETN): ${formatPercent(toComparables)}%${suffix}`
+      );
+    }
+
+    // Unit metrics
+    if (pricePerM2 != null) {
+      const areaNote = buildingArea
+        ? `${buildingArea.toLocaleString("sl-SI")} m² stavb`
+        : `${landArea.toLocaleString("sl-SI")} m² zemljišča`;
+      lines.push(`- Cena na m²: ${pricePerM2.toLocaleString("sl-SI")} €/m² (${areaNote})`);
+    }
+    if (gursBuildingValuePerM2 != null) {
+      lines.push(
+        `- GURS vrednost stavb na m²: ${gursBuildingValuePerM2.toLocaleString("sl-SI")} €/m²`
+      );
+    }
+    if (gursLandValuePerM2 != null) {
+      lines.push(
+        `- GURS vrednost zemljišča na m²: ${gursLandValuePerM2.toLocaleString("sl-SI")} €/m²`
+      );
+    }
   }
   lines.push("");
 
@@ -160,15 +225,23 @@ function formatAuctionMarkdown(auction: Auction): string {
       lines.push(
         `- **Tip:** ${prop.type === "parcel" ? "Parcela" : prop.type === "building" ? "Stavba" : "Del stavbe"}`
       );
+      if (prop.cadastralMunicipalityName) {
+        const municipality = prop.municipality ? ` (občina ${prop.municipality})` : "";
+        lines.push(
+          `- **Katastrska občina:** ${prop.cadastralMunicipality} ${prop.cadastralMunicipalityName}${municipality}`
+        );
+      }
       if (prop.parcelType) lines.push(`- **Vrsta parcele:** ${prop.parcelType}`);
       if (prop.buildingType) lines.push(`- **Vrsta stavbe:** ${prop.buildingType}`);
       if (prop.area) lines.push(`- **Površina:** ${prop.area} m²`);
       if (prop.ownershipShare) lines.push(`- **Delež lastništva:** ${prop.ownershipShare}%`);
+      const resolutionWarning = PropertyResolutionService.formatWarning(prop, prop.resolution);
+      if (resolutionWarning) lines.push(`- ⚠️ ${resolutionWarning}`);
 
       // Map image
       if (prop.mapImageUrl) {
         lines.push("");
-        lines.push(`- [Zemljevid](https://d2wwwmeai0nw0z.cloudfront.net/${prop.mapImageUrl})`);
+        lines.push(`- [Zemljevid](${toPublicUrl(prop.mapImageUrl)})`);
       }
 
       // Valuation
@@ -184,6 +257,14 @@ function formatAuctionMarkdown(auction: Auction): string {
         lines.push(
           `- **Vrednost:** ${prop.valuation.value.toLocaleString("sl-SI")} €${reducedNote}`
         );
+        if (prop.valuation.previousValue != null) {
+          lines.push(
+            `- **Prevrednoteno:** prej ${prop.valuation.previousValue.toLocaleString("sl-SI")} €`
+          );
+        }
+        if (prop.valuation.retrievedAt) {
+          lines.push(`- **Pridobljeno:** ${prop.valuation.retrievedAt.slice(0, 10)}`);
+        }
         if ("surfaceArea" in prop.valuation && prop.valuation.surfaceArea) {
           lines.push(`- **Površina:** ${prop.valuation.surfaceArea} m²`);
         }
@@ -206,6 +287,21 @@ function formatAuctionMarkdown(auction: Auction): string {
           lines.push(`- **Naslov:** ${prop.valuation.address}`);
         }
       }
+
+      // Comparable sales
+      if (prop.comparables) {
+        lines.push("");
+        lines.push("#### Primerljive prodaje (ETN)");
+        lines.push(
+          `- **Mediana:** ${prop.comparables.medianPricePerM2.toLocaleString("sl-SI")} €/m² (${prop.comparables.count} prodaj v radiju ${prop.comparables.radiusM / 1000} km)`
+        );
+        for (const sale of prop.comparables.sales) {
+          const yearBuilt = sale.yearBuilt ? `, zgrajeno ${sale.yearBuilt}` : "";
+          lines.push(
+            `- ${sale.date}: ${sale.price.toLocaleString("sl-SI")} € za ${sale.area} m² (${sale.pricePerM2.toLocaleString("sl-SI")} €/m²${yearBuilt}, ${sale.distanceM} m)`
+          );
+        }
+      }
       lines.push("");
     }
   }
@@ -216,9 +312,7 @@ function formatAuctionMarkdown(auction: Auction): string {
     lines.push("");
     for (const doc of auction.documents) {
       const desc = doc.description || "Dokument";
-      lines.push(
-        `- [${desc}](${doc.localUrl ? `https://d2wwwmeai0nw0z.cloudfront.net/${doc.localUrl}` : doc.sourceUrl})`
-      );
+      lines.push(`- [${desc}](${doc.localUrl ? toPublicUrl(doc.localUrl) : doc.sourceUrl})`);
     }
     lines.push("");
   }
@@ -229,9 +323,7 @@ function formatAuctionMarkdown(auction: Auction): string {
     lines.push("");
     for (const img of auction.images) {
       const desc = img.description || "Slika";
-      lines.push(
-        `- [${desc}](${img.localUrl ? `https://d2wwwmeai0nw0z.cloudfront.net/${img.localUrl}` : img.sourceUrl})`
-      );
+      lines.push(`- [${desc}](${img.localUrl ? toPublicUrl(img.localUrl) : img.sourceUrl})`);
     }
     lines.push("");
   }
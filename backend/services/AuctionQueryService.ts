@@ -0,0 +1,108 @@
+import { Auction } from "../types/Auction.js";
+import { AuctionFilter } from "../types/AuctionQuery.js";
+import { AuctionMainRecord } from "../types/dynamoDb/index.js";
+import { CadastralMunicipalityService } from "./CadastralMunicipalityService.js";
+
+/**
+ * Best discount in % (Relativna cena) - higher is a better deal
+ */
+function getDiscount(main: Pick<Auction, "priceToValueRatio">): number | null {
+  const { toEstimatedValue, toPropertyValuations, toComparables } = main.priceToValueRatio ?? {};
+  const discounts = [toEstimatedValue, toPropertyValuations, toComparables].filter(
+    (discount): discount is number => discount != null
+  );
+  return discounts.length > 0 ? Math.max(...discounts) : null;
+}
+
+/**
+ * Filters that only need the MAIN record (evaluated before the full auction is fetched)
+ * Auctions with unknown values are excluded when the filter is set
+ */
+function matchesMainRecord(main: AuctionMainRecord, filter: AuctionFilter): boolean {
+  if (filter.type && !filter.type.includes(main.type)) {
+    return false;
+  }
+  if (filter.dataSourceCode && !filter.dataSourceCode.includes(main.dataSourceCode)) {
+    return false;
+  }
+  if (filter.minPrice != null && !(main.price != null && main.price >= filter.minPrice)) {
+    return false;
+  }
+  if (filter.maxPrice != null && !(main.price != null && main.price <= filter.maxPrice)) {
+    return false;
+  }
+  if (filter.minDiscount != null) {
+    const discount = getDiscount(main);
+    if (discount == null || discount < filter.minDiscount) {
+      return false;
+    }
+  }
+  if (filter.minPricePerM2 != null || filter.maxPricePerM2 != null) {
+    const pricePerM2 = main.priceToValueRatio?.pricePerM2;
+    if (pricePerM2 == null) {
+      return false;
+    }
+    if (filter.minPricePerM2 != null && pricePerM2 < filter.minPricePerM2) {
+      return false;
+    }
+    if (filter.maxPricePerM2 != null && pricePerM2 > filter.maxPricePerM2) {
+      return false;
+    }
+  }
+  if (filter.municipality) {
+    const municipality = main.municipality
+      ? CadastralMunicipalityService.normalizeMunicipality(main.municipality)
+      : null;
+    if (
+      !municipality ||
+      !filter.municipality.some(
+        (name) => CadastralMunicipalityService.normalizeMunicipality(name) === municipality
+      )
+    ) {
+      return false;
+    }
+  }
+  if (filter.isHouse != null && (main.isHouse ?? false) !== filter.isHouse) {
+    return false;
+  }
+  if (filter.dueFrom || filter.dueTo) {
+    const dueDate = main.dueDate ? Date.parse(main.dueDate) : NaN;
+    if (isNaN(dueDate)) {
+      return false;
+    }
+    if (filter.dueFrom && dueDate < Date.parse(filter.dueFrom)) {
+      return false;
+    }
+    if (filter.dueTo && dueDate > Date.parse(filter.dueTo)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Filters on properties and the user's suitability (evaluated on the full auction)
+ */
+function matchesAuction(auction: Auction, filter: AuctionFilter): boolean {
+  if (
+    filter.parcelType &&
+    !auction.properties?.some((p) => p.parcelType && filter.parcelType.includes(p.parcelType))
+  ) {
+    return false;
+  }
+  if (filter.maxDrivingTime != null) {
+    const drivingTime = auction.drivingInfo?.drivingTimeMinutes;
+    if (drivingTime == null || drivingTime > filter.maxDrivingTime) {
+      return false;
+    }
+  }
+  if (filter.minScore != null && !(auction.aiScore != null && auction.aiScore >= filter.minScore)) {
+    return false;
+  }
+  return true;
+}
+
+export const AuctionQueryService = {
+  matchesMainRecord,
+  matchesAuction,
+};
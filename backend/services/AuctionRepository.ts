@@ -1,4 +1,4 @@
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { ConditionalCheckFailedException, DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import {
   DynamoDBDocumentClient,
   PutCommand,
@@ -6,6 +6,7 @@ import {
   BatchWriteCommand,
   UpdateCommand,
   paginateQuery,
+  paginateScan,
 } from "@aws-sdk/lib-dynamodb";
 import { Property } from "../types/Property.js";
 import {
@@ -24,6 +25,7 @@ import {
 import { logger } from "../utils/logger.js";
 import { AuctionDocument } from "../types/AuctionDocument.js";
 import { AuctionImage } from "../types/AuctionImage.js";
+import { AuctionOutcome } from "../types/AuctionOutcome.js";
 import { PropertyKey } from "../types/PropertyIdentifier.js";
 import { UserSuitabilityRepository } from "./UserSuitabilityRepository.js";
 
@@ -31,6 +33,10 @@ const TABLE_NAME = process.env.AUCTION_TABLE_NAME || "AuctionTable";
 const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
 const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
 const DEFAULT_TTL_DAYS = 30;
+const CHILD_TTL_GRACE_DAYS = 7;
+/** Unprocessed items are retried with exponential backoff (DynamoDB throttling) */
+const MAX_WRITE_ATTEMPTS = 8;
+const RETRY_DELAY_MS = 200;
 
 const client = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(client, {
@@ -38,7 +44,7 @@ const docClient = DynamoDBDocumentClient.from(client, {
 });
 
 /**
- * Calculate TTL as 1 day after dueDate
+ * Calculate TTL of the MAIN record as 1 day after dueDate
  * Falls back to 30 days from now if dueDate is null or invalid
  */
 function calculateTtl(dueDate: string | null): number {
@@ -53,6 +59,14 @@ function calculateTtl(dueDate: string | null): number {
   return Math.floor(Date.now() / 1000) + DEFAULT_TTL_DAYS * ONE_DAY_IN_SECONDS;
 }
 
+/**
+ * Child records (PROPERTY, DOCUMENT, IMAGE) expire a week after MAIN, so they are still available
+ * when the expired MAIN record is archived (see ArchiveService)
+ */
+function calculateChildTtl(ttl: number): number {
+  return ttl + CHILD_TTL_GRACE_DAYS * ONE_DAY_IN_SECONDS;
+}
+
 /**
  * Save an Auction to DynamoDB
  * Creates multiple records: MAIN, PROPERTY#id (with valuation), DOCUMENT#id, IMAGE#id
@@ -63,6 +77,7 @@ async function save(auction: Auction): Promise<void> {
   const auctionId = generateAuctionId(auction.dataSourceCode, sourceUrl, announcementId);
   const now = new Date().toISOString();
   const ttl = calculateTtl(auction.dueDate);
+  const childTtl = calculateChildTtl(ttl);
 
   // If LOCAL_STORAGE is true, save using logger instead of DynamoDB
   if (LOCAL_STORAGE) {
@@ -108,15 +123,22 @@ async function save(auction: Auction): Promise<void> {
     type: auction.type,
     isVacant: auction.isVacant,
     publicationDate: auction.publicationDate,
+    caseNumber: auction.caseNumber,
     dueDate: auction.dueDate,
+    auctionRound: auction.auctionRound,
+    viewingDates: auction.viewingDates,
     description: auction.description,
     location: auction.location,
+    municipality: auction.municipality,
     price: auction.price,
     estimatedValue: auction.estimatedValue,
     ownershipShare: auction.ownershipShare,
     yearBuilt: auction.yearBuilt,
+    isHouse: auction.isHouse,
     priceToValueRatio: auction.priceToValueRatio,
     publishedAt: auction.publishedAt,
+    priceHistory: auction.priceHistory,
+    priceEstimate: auction.priceEstimate,
   };
   records.set(mainRecord.recordKey, mainRecord);
 
@@ -130,9 +152,10 @@ async function save(auction: Auction): Promise<void> {
           auctionId,
           recordKey,
           recordType: "PROPERTY",
+          propertyPk: generatePropertyId(propertyData),
           createdAt: now,
           updatedAt: now,
-          ttl,
+          ttl: childTtl,
           ...propertyData,
           valuation,
         };
@@ -153,7 +176,7 @@ async function save(auction: Auction): Promise<void> {
           recordType: "DOCUMENT",
           createdAt: now,
           updatedAt: now,
-          ttl,
+          ttl: childTtl,
           ...document,
         };
         records.set(recordKey, documentRecord);
@@ -180,7 +203,7 @@ async function save(auction: Auction): Promise<void> {
           recordType: "IMAGE",
           createdAt: now,
           updatedAt: now,
-          ttl,
+          ttl: childTtl,
           ...image,
         };
         records.set(recordKey, imageRecord);
@@ -291,8 +314,9 @@ function stripDynamoDbFields<T extends AuctionRecord>(
  * Returns a clean Auction object without DynamoDB-specific fields
  * Uses pagination to handle large result sets
  * @param auctionId - The partition key
+ * @param userId - When set, attaches this user's suitability and driving info
  */
-async function getById(auctionId: string): Promise<Auction | undefined> {
+async function getById(auctionId: string, userId?: string): Promise<Auction | undefined> {
   logger.log("Fetching auction from DynamoDB", { auctionId });
 
   // Use paginator to fetch all records
@@ -323,6 +347,20 @@ async function getById(auctionId: string): Promise<Auction | undefined> {
     return undefined;
   }
 
+  return assembleAuction(auctionId, records, userId);
+}
+
+/**
+ * Assemble an Auction from its MAIN, PROPERTY, DOCUMENT and IMAGE records
+ * @param auctionId - The partition key
+ * @param records - All records of the auction
+ * @param userId - When set, attaches this user's suitability and driving info
+ */
+async function assembleAuction(
+  auctionId: string,
+  records: AuctionRecord[],
+  userId?: string
+): Promise<Auction> {
   // Collect raw data from records
   let main: Omit<Auction, "properties" | "documents" | "images"> | null = null;
   const propertiesMap = new Map<
@@ -338,9 +376,10 @@ async function getById(auctionId: string): Promise<Auction | undefined> {
         main = stripDynamoDbFields(record) as Omit<Auction, "properties" | "documents" | "images">;
         break;
       case "PROPERTY": {
-        const { valuation, mapImageUrl, ...propertyData } = stripDynamoDbFields(
+        const { valuation, mapImageUrl, propertyPk, ...propertyData } = stripDynamoDbFields(
           record
         ) as Property & {
+          propertyPk?: string;
           valuation?: AuctionPropertyValuation;
           mapImageUrl?: string;
         };
@@ -371,7 +410,9 @@ async function getById(auctionId: string): Promise<Auction | undefined> {
   );
 
   // Fetch user suitability data
-  const suitabilityRecord = await UserSuitabilityRepository.getByAuctionId(auctionId);
+  const suitabilityRecord = userId
+    ? await UserSuitabilityRepository.getByAuctionId(userId, auctionId)
+    : null;
 
   const auction: Auction = {
     ...main,
@@ -380,12 +421,52 @@ async function getById(auctionId: string): Promise<Auction | undefined> {
     documents,
     images,
     aiSuitability: suitabilityRecord?.aiSuitability ?? null,
+    aiScore: suitabilityRecord?.aiScore ?? null,
     drivingInfo: suitabilityRecord?.drivingInfo ?? null,
   };
 
   return auction;
 }
 
+/**
+ * Assemble an auction whose MAIN record has expired (TTL) from the stream image of the MAIN record
+ * and the child records, which expire later (see calculateChildTtl)
+ * @param main - MAIN record from the REMOVE stream event
+ */
+async function getExpiredAuction(main: AuctionMainRecord): Promise<Auction> {
+  const { auctionId } = main;
+  logger.log("Fetching expired auction from DynamoDB", { auctionId });
+
+  const records: AuctionRecord[] = [main];
+  if (!LOCAL_STORAGE) {
+    const paginator = paginateQuery(
+      { client: docClient },
+      {
+        TableName: TABLE_NAME,
+        KeyConditionExpression: "auctionId = :auctionId",
+        ExpressionAttributeValues: {
+          ":auctionId": auctionId,
+        },
+      }
+    );
+
+    for await (const page of paginator) {
+      for (const item of (page.Items ?? []) as AuctionRecord[]) {
+        if (item.recordType !== "MAIN") {
+          records.push(item);
+        }
+      }
+    }
+  }
+
+  logger.log("Expired auction fetched from DynamoDB", {
+    auctionId,
+    recordCount: records.length,
+  });
+
+  return assembleAuction(auctionId, records);
+}
+
 /**
  * Get a property record by auctionId and property key
  * @param auctionId - The partition key
@@ -536,6 +617,336 @@ async function updateAuctionAnalysis(
   logger.log("Auction analysis saved to DynamoDB", { auctionId });
 }
 
+/**
+ * Data of a duplicate copy merged into the canonical auction (see DeduplicationService)
+ */
+export type AuctionMergeUpdate = {
+  /** MAIN record fields after the merge */
+  main: Pick<
+    Auction,
+    "urlSources" | "location" | "estimatedValue" | "yearBuilt" | "caseNumber" | "viewingDates"
+  >;
+  /** New records from the copy, added to the existing ones */
+  properties: AuctionProperty[];
+  documents: AuctionDocument[];
+  images: AuctionImage[];
+  /** Number of existing images - the new IMAGE records are numbered after them */
+  imageOffset: number;
+  /** dueDate of the canonical auction (for TTL of the new records) */
+  dueDate: string | null;
+};
+
+/**
+ * Write the records in batches, retrying the items DynamoDB did not process
+ * @throws if some records are still not written after the last attempt
+ */
+async function batchWrite(records: AuctionRecord[]): Promise<void> {
+  // Batch write (DynamoDB allows up to 25 items per batch)
+  for (let i = 0; i < records.length; i += 25) {
+    let requests = records.slice(i, i + 25).map((record) => ({
+      PutRequest: {
+        Item: record as Record<string, unknown>,
+      },
+    }));
+
+    for (let attempt = 1; requests.length > 0; attempt++) {
+      if (attempt > MAX_WRITE_ATTEMPTS) {
+        throw new Error(`${requests.length} auction records were not saved`);
+      }
+      if (attempt > 1) {
+        logger.warn("Retrying unprocessed auction records", { count: requests.length, attempt });
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 2)));
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({
+          RequestItems: {
+            [TABLE_NAME]: requests,
+          },
+        })
+      );
+      requests = (result.UnprocessedItems?.[TABLE_NAME] ?? []).filter(
+        (request) => request.PutRequest
+      ) as typeof requests;
+    }
+  }
+}
+
+/**
+ * Merge a duplicate copy of the same sale into the canonical auction
+ * Updates the MAIN record and adds the copy's PROPERTY, DOCUMENT and IMAGE records
+ * Existing records are never replaced, so no files are removed by the stream cleanup
+ * @param auctionId - ID of the canonical auction
+ * @param update - The merged data
+ */
+async function mergeAuction(auctionId: string, update: AuctionMergeUpdate): Promise<void> {
+  const now = new Date().toISOString();
+  const ttl = calculateTtl(update.dueDate);
+
+  logger.log("Merging duplicate into auction", {
+    auctionId,
+    urlSources: update.main.urlSources,
+    newProperties: update.properties.length,
+    newDocuments: update.documents.length,
+    newImages: update.images.length,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    logger.logContent(
+      "Auction merge (local storage)",
+      { auctionId },
+      {
+        content: JSON.stringify(update, null, 2),
+        prefix: "auction-merge",
+        suffix: auctionId,
+        extension: "json",
+      }
+    );
+    return;
+  }
+
+  const { main } = update;
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        auctionId,
+        recordKey: "MAIN",
+      },
+      UpdateExpression:
+        "SET urlSources = :urlSources, #location = :location, estimatedValue = :estimatedValue, yearBuilt = :yearBuilt, caseNumber = :caseNumber, viewingDates = :viewingDates, updatedAt = :updatedAt",
+      ExpressionAttributeNames: { "#location": "location" },
+      ExpressionAttributeValues: {
+        ":urlSources": main.urlSources,
+        ":location": main.location ?? null,
+        ":estimatedValue": main.estimatedValue ?? null,
+        ":yearBuilt": main.yearBuilt ?? null,
+        ":caseNumber": main.caseNumber ?? null,
+        ":viewingDates": main.viewingDates ?? [],
+        ":updatedAt": now,
+      },
+    })
+  );
+
+  const base = { auctionId, createdAt: now, updatedAt: now, ttl: calculateChildTtl(ttl) };
+  const records: AuctionRecord[] = [
+    ...update.properties.map(
+      ({ valuation, ...propertyData }): AuctionPropertyRecord => ({
+        ...base,
+        recordKey: `PROPERTY#${generatePropertyId(propertyData)}`,
+        recordType: "PROPERTY",
+        propertyPk: generatePropertyId(propertyData),
+        ...propertyData,
+        valuation,
+      })
+    ),
+    ...update.documents.map(
+      (document): AuctionDocumentRecord => ({
+        ...base,
+        recordKey: `DOCUMENT#${hash(document.sourceUrl)}`,
+        recordType: "DOCUMENT",
+        ...document,
+      })
+    ),
+    ...update.images.map(
+      (image, index): AuctionImageRecord => ({
+        ...base,
+        recordKey: `IMAGE#${(update.imageOffset + index).toString().padStart(4, "0")}`,
+        recordType: "IMAGE",
+        ...image,
+      })
+    ),
+  ];
+
+  await batchWrite(records);
+
+  logger.log("Duplicate merged into auction", { auctionId, recordCount: records.length });
+}
+
+/**
+ * Mark the auction as a duplicate copy of another auction (it is not published)
+ * @param auctionId - ID of the duplicate
+ * @param duplicateOf - ID of the canonical auction it was merged into
+ */
+async function markDuplicate(auctionId: string, duplicateOf: string): Promise<void> {
+  logger.log("Marking auction as duplicate", {
+    auctionId,
+    duplicateOf,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        auctionId,
+        recordKey: "MAIN",
+      },
+      // A copy published before the canonical one appeared is removed from the public index
+      UpdateExpression: "SET duplicateOf = :duplicateOf, updatedAt = :updatedAt REMOVE gsiPk",
+      ExpressionAttributeValues: {
+        ":duplicateOf": duplicateOf,
+        ":updatedAt": new Date().toISOString(),
+      },
+    })
+  );
+}
+
+/**
+ * Save the outcome of the auction on its MAIN record
+ * @returns false if the MAIN record has already expired
+ */
+async function updateOutcome(auctionId: string, outcome: AuctionOutcome): Promise<boolean> {
+  logger.log("Updating auction outcome", {
+    auctionId,
+    status: outcome.status,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return true;
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          auctionId,
+          recordKey: "MAIN",
+        },
+        UpdateExpression: "SET outcome = :outcome, updatedAt = :updatedAt",
+        ConditionExpression: "attribute_exists(auctionId)",
+        ExpressionAttributeValues: {
+          ":outcome": outcome,
+          ":updatedAt": new Date().toISOString(),
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+const PROPERTY_GSI_NAME = "property";
+
+/**
+ * Get the PROPERTY records of all auctions that involve the parcel or building part
+ * Uses the "property" GSI keyed by the property ID (see generatePropertyId)
+ * @param propertyKey - The property identifier (type, cadastralMunicipality, number)
+ * @returns PROPERTY records, oldest first
+ */
+async function getPropertyRecords(propertyKey: PropertyKey): Promise<AuctionPropertyRecord[]> {
+  const propertyPk = generatePropertyId(propertyKey);
+  logger.log("Fetching property records from DynamoDB", { propertyPk });
+
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch property records");
+    return [];
+  }
+
+  const records: AuctionPropertyRecord[] = [];
+  const paginator = paginateQuery(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      IndexName: PROPERTY_GSI_NAME,
+      KeyConditionExpression: "propertyPk = :propertyPk",
+      ExpressionAttributeValues: {
+        ":propertyPk": propertyPk,
+      },
+    }
+  );
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      records.push(...(page.Items as AuctionPropertyRecord[]));
+    }
+  }
+
+  logger.log("Property records fetched from DynamoDB", { propertyPk, count: records.length });
+  return records;
+}
+
+/**
+ * Set propertyPk of PROPERTY records saved before the "property" GSI used the property ID, or
+ * before the property ID included the property type
+ * @returns Number of updated records
+ */
+async function backfillPropertyPks(): Promise<number> {
+  logger.log("Backfilling property GSI keys", { localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE) {
+    return 0;
+  }
+
+  let updated = 0;
+  const paginator = paginateScan(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      FilterExpression: "recordType = :recordType",
+      ExpressionAttributeValues: {
+        ":recordType": "PROPERTY",
+      },
+    }
+  );
+
+  for await (const page of paginator) {
+    for (const record of (page.Items ?? []) as AuctionPropertyRecord[]) {
+      const propertyPk = generatePropertyId(record);
+      if (record.propertyPk === propertyPk) {
+        continue;
+      }
+      await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { auctionId: record.auctionId, recordKey: record.recordKey },
+          UpdateExpression: "SET propertyPk = :propertyPk",
+          ExpressionAttributeValues: { ":propertyPk": propertyPk },
+        })
+      );
+      updated++;
+    }
+  }
+
+  logger.log("Property GSI keys backfilled", { updated });
+
+  return updated;
+}
+
+/**
+ * Get the MAIN record of an auction
+ * @param auctionId - The partition key
+ */
+async function getMainRecord(auctionId: string): Promise<AuctionMainRecord | null> {
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch main record");
+    return null;
+  }
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: "auctionId = :auctionId AND recordKey = :recordKey",
+      ExpressionAttributeValues: {
+        ":auctionId": auctionId,
+        ":recordKey": "MAIN",
+      },
+    })
+  );
+
+  return (result.Items?.[0] as AuctionMainRecord | undefined) ?? null;
+}
+
 const GSI_NAME = "public";
 const GSI_LIMIT = 100;
 
@@ -588,12 +999,17 @@ async function getPublishedAuctionIds(): Promise<string[]> {
 
 /**
  * Get published auctions with full data (most recent first)
- * @returns Array of auctions (up to 50)
+ * @param userId - When set, attaches this user's suitability and driving info
+ * @param minScore - When set (together with userId), only auctions with the user's AI score at least minScore
+ * @returns Array of auctions (up to 100)
  */
-async function getPublishedAuctions(): Promise<Auction[]> {
-  const auctionIds = await getPublishedAuctionIds();
+async function getPublishedAuctions(userId?: string, minScore?: number): Promise<Auction[]> {
+  const auctionIds =
+    userId && minScore != null
+      ? await UserSuitabilityRepository.getPublishedAuctionIdsByMinScore(userId, minScore)
+      : await getPublishedAuctionIds();
 
-  const auctionPromises = auctionIds.map((auctionId) => getById(auctionId));
+  const auctionPromises = auctionIds.map((auctionId) => getById(auctionId, userId));
   const auctionResults = await Promise.all(auctionPromises);
 
   const auctions = auctionResults.filter((auction): auction is Auction => auction !== undefined);
@@ -603,12 +1019,156 @@ async function getPublishedAuctions(): Promise<Auction[]> {
   return auctions;
 }
 
+const QUERY_PAGE_SIZE = 50;
+const QUERY_MAX_SCANNED = 500;
+
+/**
+ * Encode the GSI key of the last consumed item as an opaque cursor
+ */
+function encodeCursor(key: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+/**
+ * Thrown when a pagination cursor cannot be decoded
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Decode a cursor created by encodeCursor
+ * @throws InvalidCursorError if the cursor is not valid
+ */
+function decodeCursor(cursor: string): Record<string, unknown> {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (key?.gsiPk !== "PUBLISHED" || !key.auctionId || !key.date) {
+      throw new Error("Unexpected cursor key");
+    }
+    return key;
+  } catch {
+    throw new InvalidCursorError(cursor);
+  }
+}
+
+/**
+ * Query published auctions page by page using the "public" GSI
+ * MAIN records are filtered first, then matching auctions are fetched in full and filtered again
+ * A page may contain fewer than limit auctions (at most QUERY_MAX_SCANNED records are examined),
+ * nextCursor is null when there are no more auctions
+ * @param options.userId - When set, attaches this user's suitability and driving info
+ * @param options.cursor - nextCursor of the previous page
+ * @param options.limit - Maximum number of auctions to return
+ * @param options.ascending - Oldest first instead of most recent first
+ * @param options.filterMain - Filter on the MAIN record
+ * @param options.filterAuction - Filter on the full auction
+ */
+async function queryPublishedAuctions(options: {
+  userId?: string;
+  cursor?: string;
+  limit: number;
+  ascending?: boolean;
+  filterMain?: (main: AuctionMainRecord) => boolean;
+  filterAuction?: (auction: Auction) => boolean;
+}): Promise<{ auctions: Auction[]; nextCursor: string | null }> {
+  logger.log("Querying published auctions", {
+    userId: options.userId,
+    limit: options.limit,
+    hasCursor: !!options.cursor,
+  });
+
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot query auctions");
+    return { auctions: [], nextCursor: null };
+  }
+
+  const auctions: Auction[] = [];
+  let exclusiveStartKey = options.cursor ? decodeCursor(options.cursor) : undefined;
+  let lastKey: Record<string, unknown> | null = null;
+  let scanned = 0;
+
+  while (true) {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: GSI_NAME,
+        KeyConditionExpression: "gsiPk = :gsiPk",
+        ExpressionAttributeValues: {
+          ":gsiPk": "PUBLISHED",
+        },
+        ScanIndexForward: options.ascending ?? false,
+        Limit: QUERY_PAGE_SIZE,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    const items = (result.Items || []) as AuctionMainRecord[];
+    let stoppedAt = -1;
+
+    // Fetch the page's matching auctions in parallel, some may be past the limit and unused
+    const fetched = new Map<string, Auction | undefined>();
+    const matching = items.filter((main) => !options.filterMain || options.filterMain(main));
+    const matchingAuctions = await Promise.all(
+      matching.map((main) => getById(main.auctionId, options.userId))
+    );
+    matching.forEach((main, index) => fetched.set(main.auctionId, matchingAuctions[index]));
+
+    for (let i = 0; i < items.length; i++) {
+      const main = items[i];
+      scanned++;
+      lastKey = {
+        auctionId: main.auctionId,
+        recordKey: main.recordKey,
+        gsiPk: main.gsiPk,
+        date: main.date,
+      };
+
+      const auction = fetched.get(main.auctionId);
+      if (auction && (!options.filterAuction || options.filterAuction(auction))) {
+        auctions.push(auction);
+      }
+
+      if (auctions.length >= options.limit || scanned >= QUERY_MAX_SCANNED) {
+        stoppedAt = i;
+        break;
+      }
+    }
+
+    const hasMoreInPage = stoppedAt >= 0 && stoppedAt < items.length - 1;
+    if (!hasMoreInPage && !result.LastEvaluatedKey) {
+      // All published auctions were examined
+      lastKey = null;
+      break;
+    }
+    if (stoppedAt >= 0) {
+      break;
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  }
+
+  logger.log("Published auctions queried", { count: auctions.length, scanned });
+
+  return { auctions, nextCursor: lastKey ? encodeCursor(lastKey) : null };
+}
+
 export const AuctionRepository = {
   save,
   savePropertyMap,
   getById,
+  getExpiredAuction,
   getProperty,
   updatePropertyMap,
   updateAuctionAnalysis,
+  mergeAuction,
+  markDuplicate,
+  updateOutcome,
+  getPropertyRecords,
+  backfillPropertyPks,
+  getMainRecord,
   getPublishedAuctions,
+  queryPublishedAuctions,
 };
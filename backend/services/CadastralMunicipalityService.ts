@@ -0,0 +1,131 @@
+import fs from "fs";
+import path from "path";
+import { CadastralMunicipality } from "../types/CadastralMunicipality.js";
+import { logger } from "../utils/logger.js";
+
+/** Max edit distance of a fuzzy name match (typos, missing letters) */
+const MAX_DISTANCE = 2;
+/** Shorter names only match exactly, a typo would match another KO */
+const MIN_FUZZY_LENGTH = 5;
+
+let registryCache: CadastralMunicipality[] | null = null;
+
+/**
+ * Load the registry from cadastralMunicipalities.json (see importCadastralMunicipalities.ts)
+ * A missing registry is logged and treated as empty, names are then not resolved
+ */
+function getRegistry(): CadastralMunicipality[] {
+  if (registryCache) {
+    return registryCache;
+  }
+
+  const registryPath = path.join(process.cwd(), "cadastralMunicipalities.json");
+  try {
+    registryCache = JSON.parse(fs.readFileSync(registryPath, "utf-8"));
+  } catch (error) {
+    logger.warn("Cadastral municipality registry not available", error, { registryPath });
+    registryCache = [];
+  }
+  return registryCache!;
+}
+
+/**
+ * Normalize a name for matching - case, diacritics, "k.o." / "KO" prefix and separators differ
+ * e.g. "k.o. Goveji dol" -> "goveji dol"
+ */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\bkatastrska\s+obcina\b|\bk\.\s*o\.?|^ko\b/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function getByCode(code: string): CadastralMunicipality | null {
+  return getRegistry().find((ko) => ko.code === code.trim()) ?? null;
+}
+
+/**
+ * Find the KO by name - exact match after normalization, otherwise the single closest name
+ * @returns null if no name is close enough, or several are equally close
+ */
+function findByName(name: string): CadastralMunicipality | null {
+  const normalized = normalizeName(name);
+  if (!normalized) {
+    return null;
+  }
+
+  const registry = getRegistry();
+  const exact = registry.filter((ko) => normalizeName(ko.name) === normalized);
+  if (exact.length === 1) {
+    return exact[0];
+  }
+  if (exact.length > 1 || normalized.length < MIN_FUZZY_LENGTH) {
+    return null;
+  }
+
+  let best: CadastralMunicipality[] = [];
+  let bestDistance = MAX_DISTANCE + 1;
+  for (const ko of registry) {
+    const distance = editDistance(normalized, normalizeName(ko.name));
+    if (distance < bestDistance) {
+      best = [ko];
+      bestDistance = distance;
+    } else if (distance === bestDistance && distance <= MAX_DISTANCE) {
+      best.push(ko);
+    }
+  }
+  return best.length === 1 ? best[0] : null;
+}
+
+/**
+ * Normalize the cadastral municipality to its code
+ * Codes are kept even if not in the registry, names not in the registry are kept as given
+ */
+function normalizeCode(value: string): string {
+  const trimmed = value.trim();
+  const code = trimmed.match(/^(\d{1,4})(?!\d)/)?.[1];
+  if (code) {
+    return code;
+  }
+
+  const ko = findByName(trimmed);
+  if (ko) {
+    logger.log("Cadastral municipality name resolved", { name: trimmed, code: ko.code });
+    return ko.code;
+  }
+  logger.warn("Cadastral municipality name not found in registry", { name: trimmed });
+  return trimmed;
+}
+
+/**
+ * Normalize a municipality (občina) name for filtering
+ */
+function normalizeMunicipality(name: string): string {
+  return normalizeName(name);
+}
+
+export const CadastralMunicipalityService = {
+  getByCode,
+  findByName,
+  normalizeCode,
+  normalizeMunicipality,
+};
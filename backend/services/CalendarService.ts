@@ -0,0 +1,197 @@
+import { Auction } from "../types/Auction.js";
+import { toPublicUrl } from "../utils/publicUrl.js";
+import { GoogleMapsService } from "./GoogleMapsService.js";
+
+const PRODID = "-//Drazbe AI//Drazbe koledar//SL";
+const UID_DOMAIN = "drazbe.ai";
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Start of a calendar event - all-day for date-only values, timed otherwise
+ */
+type EventStart = {
+  /** YYYYMMDD for all-day events, YYYYMMDDTHHMMSS (floating local time) or YYYYMMDDTHHMMSSZ otherwise */
+  value: string;
+  allDay: boolean;
+};
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets (RFC 5545 3.1), continuation lines start with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Parse an extracted date (e.g. "2025-03-14", "2025-03-14T10:00", "2025-03-14T10:00:00Z")
+ * Times without a zone are kept as floating local time, which calendars show as Slovenian time
+ * @returns null if the value is not a recognized date
+ */
+function parseEventStart(value: string): EventStart | null {
+  const match = value
+    .trim()
+    .match(
+      /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/
+    );
+
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, zone] = match;
+  if (hour === undefined) {
+    return { value: `${year}${month}${day}`, allDay: true };
+  }
+  if (zone) {
+    const timestamp = Date.parse(value);
+    return isNaN(timestamp) ? null : { value: formatUtc(new Date(timestamp)), allDay: false };
+  }
+  return {
+    value: `${year}${month}${day}T${hour}${minute}${second ?? "00"}`,
+    allDay: false,
+  };
+}
+
+/**
+ * DTSTART/DURATION lines - all-day events last one day, timed events one hour
+ */
+function formatEventTime(start: EventStart): string[] {
+  if (start.allDay) {
+    return [`DTSTART;VALUE=DATE:${start.value}`, "DURATION:P1D"];
+  }
+  return [`DTSTART:${start.value}`, "DURATION:PT1H"];
+}
+
+function getTitle(auction: Auction): string {
+  return auction.aiTitle || auction.title;
+}
+
+/**
+ * VEVENT lines for the auction's deadline and viewings
+ */
+function formatAuctionEvents(auction: Auction, dtStamp: string): string[][] {
+  const dates = [
+    ...(auction.dueDate ? [{ kind: "due", label: "Rok", date: auction.dueDate }] : []),
+    ...(auction.viewingDates ?? []).map((date) => ({ kind: "viewing", label: "Ogled", date })),
+  ];
+
+  const link = auction.urlSources[0];
+  const detailUrl = toPublicUrl(`api/auctions/${encodeURIComponent(auction.auctionId)}`);
+  const centroid = auction.properties?.find((p) => p.valuation?.centroid)?.valuation?.centroid;
+  const geo = centroid ? GoogleMapsService.convertD96ToWGS84(centroid) : null;
+  const location =
+    auction.location || (geo ? `${geo.lat.toFixed(6)}, ${geo.lng.toFixed(6)}` : null);
+
+  const description = [
+    auction.aiSuitability,
+    auction.price != null ? `Cena: ${auction.price.toLocaleString("sl-SI")} €` : null,
+    auction.dueDate ? `Rok: ${auction.dueDate}` : null,
+    auction.viewingDates?.length ? `Ogled: ${auction.viewingDates.join(", ")}` : null,
+    link ? `Objava: ${link}` : null,
+    `Podrobnosti: ${detailUrl}`,
+  ]
+    .filter((line): line is string => !!line)
+    .join("\n");
+
+  const events: string[][] = [];
+  const uids = new Set<string>();
+  for (const { kind, label, date } of dates) {
+    const start = parseEventStart(date);
+    if (!start) {
+      continue;
+    }
+
+    // The auction has one deadline, so a moved deadline updates its event
+    // Viewings are identified by their date, so a changed list keeps the other viewings' events
+    const uid =
+      kind === "due"
+        ? `${auction.auctionId}-due@${UID_DOMAIN}`
+        : `${auction.auctionId}-${kind}-${start.value}@${UID_DOMAIN}`;
+    if (uids.has(uid)) {
+      continue;
+    }
+    uids.add(uid);
+
+    events.push([
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `DTSTAMP:${dtStamp}`,
+      ...formatEventTime(start),
+      `SUMMARY:${escapeText(`${label}: ${getTitle(auction)}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      ...(link ? [`URL:${link}`] : []),
+      ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+      ...(geo ? [`GEO:${geo.lat.toFixed(6)};${geo.lng.toFixed(6)}`] : []),
+      "END:VEVENT",
+    ]);
+  }
+
+  return events;
+}
+
+/**
+ * Build an iCalendar (RFC 5545) feed with the deadlines and viewings of the auctions
+ * @param name - Calendar name shown in the calendar app
+ * @param auctions - Auctions to include
+ * @param now - Timestamp of the feed (DTSTAMP)
+ */
+function buildCalendar(name: string, auctions: Auction[], now: Date = new Date()): string {
+  const dtStamp = formatUtc(now);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "X-WR-TIMEZONE:Europe/Ljubljana",
+    // Subscribed calendars refresh every 6 hours
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    ...auctions.flatMap((auction) => formatAuctionEvents(auction, dtStamp).flat()),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export const CalendarService = {
+  buildCalendar,
+};
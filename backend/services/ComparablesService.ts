@@ -0,0 +1,158 @@
+import { AuctionProperty } from "../types/Auction.js";
+import { ComparableKind, ComparableSale, PropertyComparables } from "../types/Comparable.js";
+import { GursBuildingPartValuation } from "../types/GursBuildingPartValuation.js";
+import { logger } from "../utils/logger.js";
+import { getOwnershipFactor, getPropertyArea } from "../utils/propertyArea.js";
+import { EtnRepository, EtnTransactionRecord } from "./EtnRepository.js";
+
+/** Search radius in m, widened once when there are not enough comparables nearby */
+const RADIUS_M = [1500, 3000];
+/** Only transactions from the last years reflect the current market */
+const MAX_AGE_YEARS = 3;
+/** Comparable area is between half and double of the property area */
+const MIN_AREA_FACTOR = 0.5;
+const MAX_AREA_FACTOR = 2;
+/** Max difference in year built, when known for both */
+const MAX_YEAR_BUILT_DIFF = 20;
+/** Fewer comparables than this do not make a meaningful median */
+const MIN_COMPARABLES = 3;
+/** Number of closest comparables shown */
+const MAX_SALES = 5;
+
+/**
+ * Kind of the property as in the ETN transactions
+ * @returns null for properties without a comparable market (e.g. other buildings)
+ */
+function getKind(property: AuctionProperty): ComparableKind | null {
+  if (property.type === "parcel") {
+    switch (property.parcelType) {
+      case "building":
+        return "building_land";
+      case "agricultural":
+        return "agricultural";
+      case "forest":
+        return "forest";
+      default:
+        return null;
+    }
+  }
+
+  switch (property.buildingType) {
+    case "residential":
+      return property.type === "building_part" ? "apartment" : "house";
+    case "commercial":
+    case "industrial":
+      return "commercial";
+    default:
+      return null;
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function toComparableSale(
+  record: EtnTransactionRecord,
+  centroid: { e: number; n: number }
+): ComparableSale {
+  return {
+    transactionId: record.transactionId,
+    date: record.date,
+    price: record.price,
+    area: record.area,
+    pricePerM2: Math.round(record.price / record.area),
+    yearBuilt: record.yearBuilt,
+    distanceM: Math.round(Math.hypot(record.e - centroid.e, record.n - centroid.n)),
+    cadastralMunicipality: record.cadastralMunicipality,
+  };
+}
+
+/**
+ * Find recent market transactions of the same kind near the property, with a similar area and
+ * year built, and calculate the median €/m²
+ * @param property - Property with the GURS valuation (centroid is required)
+ * @returns null if the property has no centroid, area or kind, or there are not enough comparables
+ */
+async function findComparables(property: AuctionProperty): Promise<PropertyComparables | null> {
+  const kind = getKind(property);
+  const area = getPropertyArea(property);
+  const centroid = property.valuation?.centroid;
+  if (!kind || !area || !centroid) {
+    return null;
+  }
+
+  const yearBuilt = (property.valuation as GursBuildingPartValuation)?.yearBuilt ?? null;
+  const since = new Date();
+  since.setFullYear(since.getFullYear() - MAX_AGE_YEARS);
+
+  for (const radiusM of RADIUS_M) {
+    const records = await EtnRepository.getNearby(
+      kind,
+      centroid,
+      radiusM,
+      since.toISOString().slice(0, 10)
+    );
+
+    const sales = records
+      .filter((record) => record.price > 0 && record.area > 0)
+      .filter(
+        (record) => record.area >= area * MIN_AREA_FACTOR && record.area <= area * MAX_AREA_FACTOR
+      )
+      .filter(
+        (record) =>
+          !yearBuilt ||
+          !record.yearBuilt ||
+          Math.abs(record.yearBuilt - yearBuilt) <= MAX_YEAR_BUILT_DIFF
+      )
+      .map((record) => toComparableSale(record, centroid))
+      .filter((sale) => sale.distanceM <= radiusM)
+      .sort((a, b) => a.distanceM - b.distanceM);
+
+    if (sales.length >= MIN_COMPARABLES) {
+      const comparables: PropertyComparables = {
+        kind,
+        medianPricePerM2: Math.round(median(sales.map((sale) => sale.price / sale.area))),
+        count: sales.length,
+        radiusM,
+        sales: sales.slice(0, MAX_SALES),
+      };
+      logger.log("Comparable sales found", {
+        property: `${property.cadastralMunicipality}-${property.number}`,
+        kind,
+        radiusM,
+        count: comparables.count,
+        medianPricePerM2: comparables.medianPricePerM2,
+      });
+      return comparables;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Value of the property by comparable sales (median €/m² × area), reduced by the ownership share
+ * @param ownershipShare - Ownership share in % (property share, or the auction share)
+ * @returns null if the property has no comparables
+ */
+function getComparablesValue(
+  property: AuctionProperty,
+  ownershipShare: number | null
+): number | null {
+  const area = getPropertyArea(property);
+  if (!property.comparables || !area) {
+    return null;
+  }
+  return Math.round(
+    property.comparables.medianPricePerM2 * area * getOwnershipFactor(ownershipShare)
+  );
+}
+
+export const ComparablesService = {
+  getKind,
+  findComparables,
+  getComparablesValue,
+};
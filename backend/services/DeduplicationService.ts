@@ -0,0 +1,170 @@
+import { Auction, AuctionProperty } from "../types/Auction.js";
+import { AuctionDocument } from "../types/AuctionDocument.js";
+import { AuctionImage } from "../types/AuctionImage.js";
+import { generatePropertyId } from "../utils/generatePropertyId.js";
+import { logger } from "../utils/logger.js";
+import { AuctionMergeUpdate, AuctionRepository } from "./AuctionRepository.js";
+import { LotHistoryRecord, LotHistoryRepository } from "./LotHistoryRepository.js";
+import { LotHistoryService } from "./LotHistoryService.js";
+import { UserProfileRepository } from "./UserProfileRepository.js";
+import { UserSuitabilityRepository } from "./UserSuitabilityRepository.js";
+
+/** Prices of the same sale on different sources differ at most by rounding */
+const PRICE_TOLERANCE_EUR = 1;
+
+function getDay(date: string | null | undefined): string | null {
+  return date ? date.slice(0, 10) : null;
+}
+
+/**
+ * Same sale: at least one common property (the lot history record is found by a property key),
+ * the same price and the same dueDate
+ */
+function isSameSale(auction: Auction, record: LotHistoryRecord): boolean {
+  if (!record.matchKey.startsWith("PROPERTY#")) {
+    return false;
+  }
+  if (auction.price == null || record.price == null) {
+    return false;
+  }
+  if (Math.abs(auction.price - record.price) > PRICE_TOLERANCE_EUR) {
+    return false;
+  }
+  const day = getDay(auction.dueDate);
+  return day !== null && day === getDay(record.dueDate);
+}
+
+/**
+ * Earlier recorded copy wins, so concurrent analyses of the copies agree on the canonical one
+ */
+function isRecordedBefore(a: LotHistoryRecord, b: LotHistoryRecord): boolean {
+  return (
+    a.recordedAt < b.recordedAt || (a.recordedAt === b.recordedAt && a.auctionId < b.auctionId)
+  );
+}
+
+/**
+ * Find the canonical copy of the auction's sale among the lot history records
+ * @returns The lot history record of the canonical copy, or null if the auction itself is canonical
+ */
+async function findCanonical(auction: Auction): Promise<LotHistoryRecord | null> {
+  const matchKeys = LotHistoryService.getMatchKeys({ properties: auction.properties });
+  const records = await LotHistoryRepository.getByMatchKeys(matchKeys);
+
+  const own = records.find((record) => record.auctionId === auction.auctionId);
+  let canonical: LotHistoryRecord | null = null;
+  for (const record of records) {
+    if (record.auctionId === auction.auctionId || !isSameSale(auction, record)) {
+      continue;
+    }
+    if (own && !isRecordedBefore(record, own)) {
+      continue;
+    }
+    if (!canonical || isRecordedBefore(record, canonical)) {
+      canonical = record;
+    }
+  }
+  return canonical;
+}
+
+function normalizeDescription(description: string | undefined): string {
+  return (description ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Merge the duplicate copy into the canonical auction
+ * Adds the copy's URL, the properties, documents and images the canonical auction does not have
+ * yet, and fills the fields the canonical auction is missing
+ */
+function buildMergeUpdate(canonical: Auction, duplicate: Auction): AuctionMergeUpdate {
+  const propertyIds = new Set((canonical.properties ?? []).map((p) => generatePropertyId(p)));
+  const properties: AuctionProperty[] = (duplicate.properties ?? []).filter(
+    (p) => !propertyIds.has(generatePropertyId(p))
+  );
+
+  // The same document is often linked from each source under a different URL
+  const documentUrls = new Set(canonical.documents.map((d) => d.sourceUrl));
+  const documentNames = new Set(
+    canonical.documents.map((d) => normalizeDescription(d.description))
+  );
+  const documents: AuctionDocument[] = duplicate.documents.filter(
+    (d) => !documentUrls.has(d.sourceUrl) && !documentNames.has(normalizeDescription(d.description))
+  );
+
+  const imageUrls = new Set(
+    (canonical.images ?? []).flatMap((image) => [image.sourceUrl, image.localUrl]).filter(Boolean)
+  );
+  const images: AuctionImage[] = (duplicate.images ?? []).filter(
+    (image) => !imageUrls.has(image.sourceUrl) && !imageUrls.has(image.localUrl)
+  );
+
+  return {
+    main: {
+      urlSources: Array.from(new Set([...canonical.urlSources, ...duplicate.urlSources])),
+      location: canonical.location ?? duplicate.location,
+      estimatedValue: canonical.estimatedValue ?? duplicate.estimatedValue,
+      yearBuilt: canonical.yearBuilt ?? duplicate.yearBuilt,
+      caseNumber: canonical.caseNumber ?? duplicate.caseNumber,
+      viewingDates: Array.from(
+        new Set([...(canonical.viewingDates ?? []), ...(duplicate.viewingDates ?? [])])
+      ),
+    },
+    properties,
+    documents,
+    images,
+    imageOffset: canonical.images?.length ?? 0,
+    dueDate: canonical.dueDate,
+  };
+}
+
+/**
+ * Dedup stage before publishing - merge the auction into an earlier copy of the same sale
+ * from another source (same property, price and dueDate), so the sale is published once
+ * @param auction - The auction about to be published
+ * @returns ID of the canonical auction the auction was merged into, or null if it is not a copy
+ */
+async function deduplicate(auction: Auction): Promise<string | null> {
+  const { auctionId } = auction;
+
+  const canonicalRecord = await findCanonical(auction);
+  if (!canonicalRecord) {
+    return null;
+  }
+
+  const canonical = await AuctionRepository.getById(canonicalRecord.auctionId);
+  if (!canonical || canonical.duplicateOf) {
+    logger.warn("Canonical copy not available, publishing the auction", {
+      auctionId,
+      canonicalAuctionId: canonicalRecord.auctionId,
+      duplicateOf: canonical?.duplicateOf,
+    });
+    return null;
+  }
+
+  logger.log("Duplicate of another source found", {
+    auctionId,
+    canonicalAuctionId: canonical.auctionId,
+    urlSources: auction.urlSources,
+  });
+
+  await AuctionRepository.mergeAuction(canonical.auctionId, buildMergeUpdate(canonical, auction));
+  await AuctionRepository.markDuplicate(auctionId, canonical.auctionId);
+
+  // A copy analyzed before the canonical one appeared is still in the users' digests and feeds
+  // The copy is already marked, so a failure here must not publish it again
+  try {
+    const profiles = await UserProfileRepository.getAll();
+    await Promise.all(
+      profiles.map((profile) => UserSuitabilityRepository.unpublish(profile.userId, auctionId))
+    );
+  } catch (error) {
+    logger.error("Failed to unpublish duplicate auction", error, { auctionId });
+  }
+
+  return canonical.auctionId;
+}
+
+export const DeduplicationService = {
+  buildMergeUpdate,
+  deduplicate,
+};
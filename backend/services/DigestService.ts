@@ -0,0 +1,196 @@
+import { marked } from "marked";
+import { Auction } from "../types/Auction.js";
+import { UserProfile } from "../types/UserProfile.js";
+import { logger } from "../utils/logger.js";
+import { toPublicUrl } from "../utils/publicUrl.js";
+import { AuctionMarkdownService } from "./AuctionMarkdownService.js";
+import { AuctionQueryService } from "./AuctionQueryService.js";
+import { AuctionRepository } from "./AuctionRepository.js";
+import { MailMessage, MailService } from "./MailService.js";
+import { PropertyFlagService } from "./PropertyFlagService.js";
+import { UserProfileRepository } from "./UserProfileRepository.js";
+import { UserSuitabilityRepository } from "./UserSuitabilityRepository.js";
+
+const DEFAULT_MIN_SCORE = 7;
+const DUE_SOON_DAYS = 7;
+const DUE_SOON_LIMIT = 50;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+/** Users served more recently are skipped, so a retried daily run sends no second digest */
+const MIN_DIGEST_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function getTitle(auction: Auction): string {
+  return auction.aiSuitability || auction.aiTitle || auction.title;
+}
+
+/**
+ * First photo of the auction (localUrl preferred)
+ */
+function getPhotoUrl(auction: Auction): string | undefined {
+  const image = auction.images?.[0];
+  if (!image) return undefined;
+  return image.localUrl ? toPublicUrl(image.localUrl) : image.sourceUrl;
+}
+
+/**
+ * Map image of the first property that has one
+ */
+function getMapImageUrl(auction: Auction): string | undefined {
+  const property = auction.properties?.find((p) => p.mapImageUrl);
+  return property ? toPublicUrl(property.mapImageUrl) : undefined;
+}
+
+/**
+ * Render a single auction: title, photo, map and the AuctionMarkdownService output
+ */
+async function formatAuctionHtml(auction: Auction): Promise<string> {
+  const link = auction.urlSources[0] || "";
+  const images = [getPhotoUrl(auction), getMapImageUrl(auction)]
+    .filter((url): url is string => !!url)
+    .map(
+      (url) =>
+        `<img src="${escapeHtml(url)}" alt="" style="max-width: 280px; max-height: 210px; margin: 0 8px 8px 0;">`
+    )
+    .join("");
+  const body = await marked(AuctionMarkdownService.formatAuctionMarkdown(auction));
+
+  return `<div style="border-top: 1px solid #ddd; padding: 16px 0;">
+<h2 style="font-size: 18px;"><a href="${escapeHtml(link)}">${escapeHtml(getTitle(auction))}</a></h2>
+${images ? `<div>${images}</div>` : ""}
+${body}
+</div>`;
+}
+
+/**
+ * Build the digest email
+ * @param profile - The recipient
+ * @param newAuctions - Auctions published since the last digest (sorted by suitability)
+ * @param dueSoon - Auctions with dueDate in the next days (sorted by dueDate)
+ */
+async function buildDigest(
+  profile: UserProfile,
+  newAuctions: Auction[],
+  dueSoon: Auction[]
+): Promise<MailMessage> {
+  const sections: string[] = [];
+
+  sections.push(`<h1 style="font-size: 22px;">Nove dražbe (${newAuctions.length})</h1>`);
+  if (newAuctions.length === 0) {
+    sections.push("<p>Ni novih primernih dražb.</p>");
+  }
+  for (const auction of newAuctions) {
+    sections.push(await formatAuctionHtml(auction));
+  }
+
+  if (dueSoon.length > 0) {
+    sections.push(`<h1 style="font-size: 22px;">Rok poteče v ${DUE_SOON_DAYS} dneh</h1>`);
+    sections.push("<ul>");
+    for (const auction of dueSoon) {
+      const link = auction.urlSources[0] || "";
+      sections.push(
+        `<li><strong>${escapeHtml(auction.dueDate ?? "")}</strong> - <a href="${escapeHtml(link)}">${escapeHtml(getTitle(auction))}</a></li>`
+      );
+    }
+    sections.push("</ul>");
+  }
+
+  const html = `<!DOCTYPE html>
+<html lang="sl">
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; max-width: 720px;">
+${sections.join("\n")}
+</body>
+</html>`;
+
+  const text = [
+    ...newAuctions.map((a) => `${getTitle(a)}\n${a.urlSources[0] || ""}`),
+    ...dueSoon.map((a) => `Rok ${a.dueDate}: ${getTitle(a)}\n${a.urlSources[0] || ""}`),
+  ].join("\n\n");
+
+  return {
+    to: profile.email,
+    subject: `Dražbe AI - nove dražbe: ${newAuctions.length}`,
+    html,
+    text,
+  };
+}
+
+/**
+ * Collect auctions published since the user's last digest and the ones due soon, and send the digest
+ * Sorted by AI score (best first), only auctions with score at least the user's digestMinScore
+ * Users already served in the current run are skipped (the run is retried when a user fails)
+ * @param profile - The recipient (must have email)
+ * @param now - Current time, becomes the user's lastDigestAt
+ * @returns Whether an email was sent
+ */
+async function sendDigest(profile: UserProfile, now: Date = new Date()): Promise<boolean> {
+  const { userId } = profile;
+  const minScore = profile.digestMinScore ?? DEFAULT_MIN_SCORE;
+  const since = profile.lastDigestAt ?? new Date(now.getTime() - ONE_DAY_MS).toISOString();
+
+  if (profile.lastDigestAt && now.getTime() - Date.parse(since) < MIN_DIGEST_INTERVAL_MS) {
+    logger.log("Digest already sent in this run, skipping", { userId, lastDigestAt: since });
+    return false;
+  }
+
+  logger.log("Preparing digest", { userId, since, minScore });
+
+  // Auctions of properties the user rejected are left out
+  const notRejected = await PropertyFlagService.getNotRejectedFilter(userId);
+
+  const records = await UserSuitabilityRepository.getPublishedSince(userId, since);
+  const auctionIds = records
+    .filter((record) => record.aiScore != null && record.aiScore >= minScore)
+    .map((record) => record.auctionId);
+
+  const newAuctions = (
+    await Promise.all(auctionIds.map((auctionId) => AuctionRepository.getById(auctionId, userId)))
+  )
+    .filter((auction): auction is Auction => auction !== undefined && notRejected(auction))
+    .sort((a, b) => (b.aiScore ?? 0) - (a.aiScore ?? 0));
+
+  const dueFilter = {
+    dueFrom: now.toISOString(),
+    dueTo: new Date(now.getTime() + DUE_SOON_DAYS * ONE_DAY_MS).toISOString(),
+    minScore,
+  };
+  const { auctions: dueSoon } = await AuctionRepository.queryPublishedAuctions({
+    userId,
+    limit: DUE_SOON_LIMIT,
+    filterMain: (main) => AuctionQueryService.matchesMainRecord(main, dueFilter),
+    filterAuction: (auction) =>
+      AuctionQueryService.matchesAuction(auction, dueFilter) && notRejected(auction),
+  });
+  dueSoon.sort((a, b) => Date.parse(a.dueDate) - Date.parse(b.dueDate));
+
+  let sent = false;
+  if (newAuctions.length > 0 || dueSoon.length > 0) {
+    await MailService.send(await buildDigest(profile, newAuctions, dueSoon));
+    sent = true;
+  } else {
+    logger.log("Nothing to send in digest", { userId });
+  }
+
+  await UserProfileRepository.updateLastDigestAt(userId, now.toISOString());
+
+  logger.log("Digest completed", {
+    userId,
+    sent,
+    newCount: newAuctions.length,
+    dueSoonCount: dueSoon.length,
+  });
+
+  return sent;
+}
+
+export const DigestService = {
+  buildDigest,
+  sendDigest,
+};
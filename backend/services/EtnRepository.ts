@@ -0,0 +1,157 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, BatchWriteCommand, paginateQuery } from "@aws-sdk/lib-dynamodb";
+import { ComparableKind } from "../types/Comparable.js";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.ETN_TABLE_NAME || "EtnTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+/** Grid cell size in m - transactions are partitioned by kind and grid cell */
+const CELL_SIZE_M = 3000;
+/** Unprocessed items are retried with exponential backoff (DynamoDB throttling) */
+const MAX_WRITE_ATTEMPTS = 8;
+const RETRY_DELAY_MS = 200;
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Sold part (building part or parcel) of an ETN market transaction
+ */
+export type EtnTransactionRecord = {
+  /** Partition key: {kind}#{cellE}#{cellN} (see getCellKey) */
+  cellKey: string;
+  /** Sort key: {date}#{transactionId}#{partId}, so recent transactions are queried by date */
+  saleKey: string;
+  transactionId: string;
+  /**
+   * ID of the sold part within the transaction: {S|P}{cadastralMunicipality}-{number}
+   * Stable across exports, so a re-import overwrites the part instead of adding it again
+   */
+  partId: string;
+  kind: ComparableKind;
+  /** Contract date (YYYY-MM-DD) */
+  date: string;
+  price: number;
+  area: number;
+  yearBuilt: number | null;
+  /** Centroid (D96/TM) */
+  e: number;
+  n: number;
+  cadastralMunicipality: string;
+  /** Parcel or building part number */
+  number: string | null;
+};
+
+function getCellKey(kind: ComparableKind, e: number, n: number): string {
+  return `${kind}#${Math.floor(e / CELL_SIZE_M)}#${Math.floor(n / CELL_SIZE_M)}`;
+}
+
+/**
+ * Get the transactions of the kind within the radius around the centroid since the date
+ * Queries all grid cells the radius touches, the distance is checked by the caller
+ */
+async function getNearby(
+  kind: ComparableKind,
+  centroid: { e: number; n: number },
+  radiusM: number,
+  since: string
+): Promise<EtnTransactionRecord[]> {
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch ETN transactions");
+    return [];
+  }
+
+  const cellKeys: string[] = [];
+  const minE = Math.floor((centroid.e - radiusM) / CELL_SIZE_M);
+  const maxE = Math.floor((centroid.e + radiusM) / CELL_SIZE_M);
+  const minN = Math.floor((centroid.n - radiusM) / CELL_SIZE_M);
+  const maxN = Math.floor((centroid.n + radiusM) / CELL_SIZE_M);
+  for (let cellE = minE; cellE <= maxE; cellE++) {
+    for (let cellN = minN; cellN <= maxN; cellN++) {
+      cellKeys.push(`${kind}#${cellE}#${cellN}`);
+    }
+  }
+
+  const records: EtnTransactionRecord[] = [];
+  for (const cellKey of cellKeys) {
+    const paginator = paginateQuery(
+      { client: docClient },
+      {
+        TableName: TABLE_NAME,
+        KeyConditionExpression: "cellKey = :cellKey AND saleKey >= :since",
+        ExpressionAttributeValues: {
+          ":cellKey": cellKey,
+          ":since": since,
+        },
+      }
+    );
+
+    for await (const page of paginator) {
+      if (page.Items) {
+        records.push(...(page.Items as EtnTransactionRecord[]));
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Save transactions (import), existing transactions are overwritten
+ */
+async function save(records: Omit<EtnTransactionRecord, "cellKey" | "saleKey">[]): Promise<void> {
+  logger.log("Saving ETN transactions", { count: records.length, localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE || records.length === 0) {
+    return;
+  }
+
+  // A batch must not contain the same key twice, the last record of a key wins
+  const items = new Map<string, EtnTransactionRecord>();
+  for (const record of records) {
+    const item: EtnTransactionRecord = {
+      ...record,
+      cellKey: getCellKey(record.kind, record.e, record.n),
+      saleKey: `${record.date}#${record.transactionId}#${record.partId}`,
+    };
+    items.set(`${item.cellKey}|${item.saleKey}`, item);
+  }
+  const uniqueItems = Array.from(items.values());
+
+  // Batch write (DynamoDB allows up to 25 items per batch)
+  for (let i = 0; i < uniqueItems.length; i += 25) {
+    let requests = uniqueItems.slice(i, i + 25).map((item) => ({
+      PutRequest: {
+        Item: item as Record<string, unknown>,
+      },
+    }));
+
+    // Retry the items DynamoDB did not process (throttling) with exponential backoff
+    for (let attempt = 1; requests.length > 0; attempt++) {
+      if (attempt > MAX_WRITE_ATTEMPTS) {
+        throw new Error(`${requests.length} ETN transactions were not saved, retry the import`);
+      }
+      if (attempt > 1) {
+        logger.warn("Retrying unprocessed ETN transactions", { count: requests.length, attempt });
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 2)));
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({
+          RequestItems: {
+            [TABLE_NAME]: requests,
+          },
+        })
+      );
+      requests = (result.UnprocessedItems?.[TABLE_NAME] ?? []).filter(
+        (request) => request.PutRequest
+      ) as typeof requests;
+    }
+  }
+}
+
+export const EtnRepository = {
+  getNearby,
+  save,
+};
@@ -126,4 +126,5 @@ function getGoogleMapsUrl(location: Location): string {
 export const GoogleMapsService = {
   getDrivingInfo,
   getGoogleMapsUrl,
+  convertD96ToWGS84,
 };
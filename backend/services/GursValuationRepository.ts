@@ -0,0 +1,81 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { GursBuildingPartValuation } from "../types/GursBuildingPartValuation.js";
+import { GursParcelValuation } from "../types/GursParcelValuation.js";
+import { PropertyResolution } from "../types/PropertyResolution.js";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.GURS_VALUATION_TABLE_NAME || "GursValuationTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * GURS valuation lookup - one record per retrieval, so revaluations can be detected
+ */
+export type GursValuationRecord = {
+  /** Partition key: {type}#{cadastralMunicipality}#{number} as queried */
+  valuationKey: string;
+  /** Sort key: timestamp when the valuation was retrieved from vrednotenje.gov.si */
+  retrievedAt: string;
+  /** Valuation of the whole property (not reduced by ownership share), null if not found */
+  valuation: GursParcelValuation | GursBuildingPartValuation | null;
+  /** How the property was matched to the GURS record */
+  resolution?: PropertyResolution;
+};
+
+/**
+ * Get the most recently retrieved valuation
+ * @returns null if the property was never looked up
+ */
+async function getLatest(valuationKey: string): Promise<GursValuationRecord | null> {
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch cached GURS valuation");
+    return null;
+  }
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: "valuationKey = :valuationKey",
+      ExpressionAttributeValues: {
+        ":valuationKey": valuationKey,
+      },
+      ScanIndexForward: false,
+      Limit: 1,
+    })
+  );
+
+  return (result.Items?.[0] as GursValuationRecord) ?? null;
+}
+
+/**
+ * Record a retrieved valuation
+ */
+async function save(record: GursValuationRecord): Promise<void> {
+  logger.log("Saving GURS valuation", {
+    valuationKey: record.valuationKey,
+    retrievedAt: record.retrievedAt,
+    value: record.valuation?.value ?? null,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: record,
+    })
+  );
+}
+
+export const GursValuationRepository = {
+  getLatest,
+  save,
+};
@@ -4,9 +4,16 @@ import {
   gursBuildingPartValuationSchema,
 } from "../types/GursBuildingPartValuation.js";
 import { PropertyKey, propertyKeySchema } from "../types/PropertyIdentifier.js";
+import { PropertyResolution } from "../types/PropertyResolution.js";
 import { logger } from "../utils/logger.js";
+import { GursValuationRecord, GursValuationRepository } from "./GursValuationRepository.js";
+import { PropertyResolutionService, ResolutionCandidate } from "./PropertyResolutionService.js";
 
 const BASE_URL = "https://vrednotenje.gov.si/EV_Javni_Server/podatki";
+/** Cached valuations are fetched again after this many days (GURS revalues periodically) */
+const REFRESH_DAYS = 30;
+/** Properties not found are looked up again sooner (e.g. a newly registered parcel) */
+const NOT_FOUND_REFRESH_DAYS = 7;
 
 // Helper to find land use data in faktorji podatki
 function findLandUseValue(faktorji: any[]): string | undefined {
@@ -21,7 +28,50 @@ function findLandUseValue(faktorji: any[]): string | undefined {
   return undefined;
 }
 
-async function getParcelValuation(query: PropertyKey): Promise<GursParcelValuation | null> {
+/**
+ * Valuation with the resolution of the property to the GURS record
+ */
+type ResolvedValuation = {
+  valuation: GursParcelValuation | GursBuildingPartValuation | null;
+  resolution: PropertyResolution;
+};
+
+const NOT_FOUND: PropertyResolution = { status: "not_found" };
+
+/**
+ * Map the parcel search response to resolution candidates
+ * Field names are checked against a recorded response in manual_tests/testParcelValuation.ts
+ */
+function toParcelCandidates(searchRes: unknown): ResolutionCandidate<any>[] {
+  return (Array.isArray(searchRes) ? searchRes : [])
+    .filter((item: any) => item?.pcMid)
+    .map((item: any) => ({
+      cadastralMunicipality: item.koSifko != null ? String(item.koSifko) : null,
+      number: item.parcela ?? item.stParcele ?? null,
+      item,
+    }));
+}
+
+/**
+ * Map the building part search response to resolution candidates
+ * Field names are checked against a recorded response in manual_tests/testParcelValuation.ts
+ */
+function toBuildingPartCandidates(searchRes: unknown): ResolutionCandidate<any>[] {
+  return (Array.isArray(searchRes) ? searchRes : [])
+    .filter((item: any) => item?.dstSid)
+    .map((item: any) => ({
+      cadastralMunicipality: item.koSifko != null ? String(item.koSifko) : null,
+      number:
+        item.stevStavbe != null && item.stevDst != null
+          ? `${item.stevStavbe}/${item.stevDst}`
+          : null,
+      item,
+    }));
+}
+
+async function getParcelValuation(
+  query: PropertyKey
+): Promise<{ valuation: GursParcelValuation | null; resolution: PropertyResolution }> {
   logger.log("Fetching parcel valuation", {
     municipality: query.cadastralMunicipality,
     number: query.number,
@@ -33,23 +83,30 @@ async function getParcelValuation(query: PropertyKey): Promise<GursParcelValuati
       query,
       validationErrors: validated.error.issues,
     });
-    return null;
+    return { valuation: null, resolution: NOT_FOUND };
   }
 
   const searchRes = await fetch(
     `${BASE_URL}/parcela/search?count=101&offset=0&parcela=${encodeURIComponent(validated.data.number)}&koSifko=${validated.data.cadastralMunicipality}`
   ).then((r) => r.json());
 
-  if (!searchRes?.[0]?.pcMid) {
-    logger.warn("Parcel not found in API response", {
+  // Search results are matched by number, the first result may be a different parcel
+  const { item: match, resolution } = PropertyResolutionService.resolve(
+    validated.data.cadastralMunicipality,
+    validated.data.number,
+    toParcelCandidates(searchRes)
+  );
+  if (!match) {
+    logger.warn("Parcel not resolved in API response", {
       municipality: validated.data.cadastralMunicipality,
       parcelNumber: validated.data.number,
       responseLength: searchRes?.length || 0,
+      resolution,
     });
-    return null;
+    return { valuation: null, resolution };
   }
 
-  const id = searchRes[0].pcMid;
+  const id = match.pcMid;
   logger.log("Fetching parcel details", { pcMid: id });
   const [basic, valueArr] = await Promise.all([
     fetch(`${BASE_URL}/parcela/${id}`).then((r) => r.json()),
@@ -108,12 +165,12 @@ async function getParcelValuation(query: PropertyKey): Promise<GursParcelValuati
     value: result.value,
   });
 
-  return result;
+  return { valuation: result, resolution };
 }
 
 async function getBuildingPartValuation(
   query: PropertyKey
-): Promise<GursBuildingPartValuation | null> {
+): Promise<{ valuation: GursBuildingPartValuation | null; resolution: PropertyResolution }> {
   logger.log("Fetching building part valuation", {
     municipality: query.cadastralMunicipality,
     number: query.number,
@@ -125,7 +182,7 @@ async function getBuildingPartValuation(
       query,
       validationErrors: validated.error.issues,
     });
-    return null;
+    return { valuation: null, resolution: NOT_FOUND };
   }
 
   const [buildingNum, partNum = "1"] = validated.data.number.split("/");
@@ -134,24 +191,31 @@ async function getBuildingPartValuation(
       providedNumber: validated.data.number,
       municipality: validated.data.cadastralMunicipality,
     });
-    return null;
+    return { valuation: null, resolution: NOT_FOUND };
   }
 
   const searchRes = await fetch(
     `${BASE_URL}/delStavbe/search?count=101&offset=0&koSifko=${validated.data.cadastralMunicipality}&stevStavbe=${buildingNum}&stevDst=${partNum}`
   ).then((r) => r.json());
 
-  if (!searchRes?.[0]?.dstSid) {
-    logger.warn("Building part not found in API response", {
+  // Search results are matched by number, the first result may be a different building part
+  const { item: match, resolution } = PropertyResolutionService.resolve(
+    validated.data.cadastralMunicipality,
+    `${buildingNum}/${partNum}`,
+    toBuildingPartCandidates(searchRes)
+  );
+  if (!match) {
+    logger.warn("Building part not resolved in API response", {
       municipality: validated.data.cadastralMunicipality,
       buildingNumber: buildingNum,
       partNumber: partNum,
       responseLength: searchRes?.length || 0,
+      resolution,
     });
-    return null;
+    return { valuation: null, resolution };
   }
 
-  const { dstSid: partId, staSid: buildingId, hsMid: addressId } = searchRes[0];
+  const { dstSid: partId, staSid: buildingId, hsMid: addressId } = match;
   logger.log("Fetching building part details", { partId, buildingId, addressId });
 
   const [part, building, address, value] = await Promise.all([
@@ -197,13 +261,148 @@ async function getBuildingPartValuation(
     netFloorArea: result.netFloorArea,
   });
 
+  return { valuation: result, resolution };
+}
+
+/**
+ * Fetch the valuation from vrednotenje.gov.si
+ * The type is a hint for which API to try first, the other type is tried if the property is not
+ * matched - a property found by either API is preferred, then an ambiguous one (with candidates)
+ * @throws if vrednotenje.gov.si is not reachable or returns an invalid response
+ */
+async function fetchValuation(query: PropertyKey): Promise<ResolvedValuation> {
+  // Use the provided type as a hint for which API to try first
+  // If the first attempt fails (returns null), automatically fallback to the other type
+  // This handles cases where the type property might be incorrect or mismatched
+  let result: ResolvedValuation;
+
+  if (query.type === "parcel") {
+    // Try parcel first
+    logger.log("Trying as parcel first");
+    result = await getParcelValuation(query);
+    if (!result.valuation) {
+      // Parcel lookup failed, try as building part instead
+      logger.log("Parcel lookup failed, trying as building part");
+      const fallback = await getBuildingPartValuation({ ...query, type: "building_part" });
+      result = fallback.valuation || result.resolution.status === "not_found" ? fallback : result;
+    }
+  } else {
+    // Try building part first
+    logger.log("Trying as building part first");
+    result = await getBuildingPartValuation(query);
+    if (!result.valuation) {
+      // Building part lookup failed, try as parcel instead
+      logger.log("Building part lookup failed, trying as parcel");
+      const fallback = await getParcelValuation({ ...query, type: "parcel" });
+      result = fallback.valuation || result.resolution.status === "not_found" ? fallback : result;
+    }
+  }
+
+  // If not found, try with cleaned number (only digits and /)
+  if (result.resolution.status === "not_found") {
+    const cleanedNumber = query.number.replace(/[^0-9/]/g, "");
+    if (cleanedNumber !== query.number && cleanedNumber.length > 0) {
+      logger.log("Retrying with cleaned number", {
+        original: query.number,
+        cleaned: cleanedNumber,
+      });
+      return fetchValuation({ ...query, number: cleanedNumber });
+    }
+  }
+
   return result;
 }
 
-async function getValuation(
+/**
+ * Whether the cached lookup is recent enough to be used instead of fetching again
+ */
+function isFresh(record: GursValuationRecord): boolean {
+  const maxAgeDays = record.valuation ? REFRESH_DAYS : NOT_FOUND_REFRESH_DAYS;
+  return Date.now() - Date.parse(record.retrievedAt) < maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Get the valuation from the cache, or fetch it and record the retrieval
+ * Cache errors are logged and the valuation is fetched, so a cache outage does not stop processing
+ */
+async function getCachedValuation(query: PropertyKey): Promise<ResolvedValuation> {
+  const valuationKey = `${query.type}#${query.cadastralMunicipality.trim()}#${query.number.trim()}`;
+
+  let cached: GursValuationRecord | null = null;
+  try {
+    cached = await GursValuationRepository.getLatest(valuationKey);
+  } catch (error) {
+    logger.warn("Failed to read cached GURS valuation", error, { valuationKey });
+  }
+
+  // Records cached before the resolution was recorded are fetched again
+  if (cached?.resolution && isFresh(cached)) {
+    logger.log("Using cached GURS valuation", {
+      valuationKey,
+      retrievedAt: cached.retrievedAt,
+    });
+    return { valuation: cached.valuation, resolution: cached.resolution };
+  }
+
+  const retrievedAt = new Date().toISOString();
+  let result: ResolvedValuation;
+  try {
+    result = await fetchValuation(query);
+  } catch (error) {
+    // Not cached, a failed retrieval is not a missing property
+    logger.warn("Error occurred during valuation retrieval", error, {
+      type: query.type,
+      municipality: query.cadastralMunicipality,
+      number: query.number,
+    });
+    return {
+      valuation: cached?.valuation ?? null,
+      resolution: cached?.resolution ?? NOT_FOUND,
+    };
+  }
+
+  let valuation = result.valuation;
+  if (valuation) {
+    valuation = { ...valuation, retrievedAt };
+    // GURS revalued the property since the previous retrieval
+    const previousValue = cached?.valuation?.value;
+    if (previousValue != null && previousValue !== valuation.value) {
+      logger.log("GURS revaluation detected", {
+        valuationKey,
+        previousValue,
+        previousRetrievedAt: cached.retrievedAt,
+        value: valuation.value,
+      });
+      valuation = { ...valuation, previousValue };
+    } else if (cached?.valuation?.previousValue != null) {
+      valuation = { ...valuation, previousValue: cached.valuation.previousValue };
+    }
+  }
+
+  try {
+    await GursValuationRepository.save({
+      valuationKey,
+      retrievedAt,
+      valuation,
+      resolution: result.resolution,
+    });
+  } catch (error) {
+    logger.warn("Failed to cache GURS valuation", error, { valuationKey });
+  }
+
+  return { valuation, resolution: result.resolution };
+}
+
+/**
+ * Get the valuation and how the property was matched to the GURS record
+ * Ambiguous properties have no valuation, so a wrong parcel is not valued
+ * @param query - Property from the announcement
+ * @param ownershipShare - Ownership share in %, the value is reduced by it
+ */
+async function resolveValuation(
   query: PropertyKey,
   ownershipShare: number | null
-): Promise<GursParcelValuation | GursBuildingPartValuation | null> {
+): Promise<ResolvedValuation> {
   logger.log("Getting valuation", {
     type: query.type,
     municipality: query.cadastralMunicipality,
@@ -217,53 +416,11 @@ async function getValuation(
       query,
       validationErrors: validated.error.issues,
     });
-    return null;
+    return { valuation: null, resolution: NOT_FOUND };
   }
 
-  // Use the provided type as a hint for which API to try first
-  // If the first attempt fails (returns null), automatically fallback to the other type
-  // This handles cases where the type property might be incorrect or mismatched
-  let result: GursParcelValuation | GursBuildingPartValuation | null = null;
-
-  try {
-    if (validated.data.type === "parcel") {
-      // Try parcel first
-      logger.log("Trying as parcel first");
-      result = await getParcelValuation(validated.data);
-      if (!result) {
-        // Parcel lookup failed, try as building part instead
-        logger.log("Parcel lookup failed, trying as building part");
-        result = await getBuildingPartValuation({ ...validated.data, type: "building_part" });
-      }
-    } else {
-      // Try building part first
-      logger.log("Trying as building part first");
-      result = await getBuildingPartValuation(validated.data);
-      if (!result) {
-        // Building part lookup failed, try as parcel instead
-        logger.log("Building part lookup failed, trying as parcel");
-        result = await getParcelValuation({ ...validated.data, type: "parcel" });
-      }
-    }
-  } catch (error) {
-    logger.warn("Error occurred during valuation retrieval", error, {
-      type: validated.data.type,
-      municipality: validated.data.cadastralMunicipality,
-      number: validated.data.number,
-    });
-  }
-
-  // If failed, try with cleaned number (only digits and /)
-  if (!result) {
-    const cleanedNumber = validated.data.number.replace(/[^0-9/]/g, "");
-    if (cleanedNumber !== validated.data.number && cleanedNumber.length > 0) {
-      logger.log("Retrying with cleaned number", {
-        original: validated.data.number,
-        cleaned: cleanedNumber,
-      });
-      return getValuation({ ...validated.data, number: cleanedNumber }, ownershipShare);
-    }
-  }
+  const { valuation, resolution } = await getCachedValuation(validated.data);
+  let result = valuation;
 
   // Apply ownership share to value if provided
   if (result && ownershipShare != null && ownershipShare > 0 && ownershipShare < 100) {
@@ -273,10 +430,30 @@ async function getValuation(
       ownershipShare,
       adjustedValue,
     });
-    result = { ...result, value: adjustedValue, reducedByOwnershipShare: true };
+    result = {
+      ...result,
+      value: adjustedValue,
+      previousValue:
+        result.previousValue != null
+          ? Math.round(result.previousValue * (ownershipShare / 100))
+          : undefined,
+      reducedByOwnershipShare: true,
+    };
   }
 
-  return result;
+  return { valuation: result, resolution };
+}
+
+async function getValuation(
+  query: PropertyKey,
+  ownershipShare: number | null
+): Promise<GursParcelValuation | GursBuildingPartValuation | null> {
+  return (await resolveValuation(query, ownershipShare)).valuation;
 }
 
-export const GursValuationService = { getValuation };
+export const GursValuationService = {
+  getValuation,
+  resolveValuation,
+  toParcelCandidates,
+  toBuildingPartCandidates,
+};
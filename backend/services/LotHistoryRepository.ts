@@ -0,0 +1,153 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  BatchWriteCommand,
+  paginateQuery,
+  paginateScan,
+} from "@aws-sdk/lib-dynamodb";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.LOT_HISTORY_TABLE_NAME || "LotHistoryTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Offering of a lot - one record per match key of the auction, so auctions sharing a
+ * property can be found after the auction records have expired
+ */
+export type LotHistoryRecord = {
+  /** Partition key: PROPERTY#{propertyId} (see generatePropertyId) */
+  matchKey: string;
+  /** Sort key */
+  auctionId: string;
+  dataSourceCode: string;
+  url: string | null;
+  price: number | null;
+  dueDate: string | null;
+  publicationDate: string | null;
+  /** Case number of the offering, confirms a property match */
+  caseNumber?: string | null;
+  /** Timestamp when the offering was recorded */
+  recordedAt: string;
+};
+
+/**
+ * Get all offerings recorded under the match keys
+ * @param matchKeys - Match keys of the auction (see LotHistoryService)
+ * @returns Records of all match keys, an auction can appear under several keys
+ */
+async function getByMatchKeys(matchKeys: string[]): Promise<LotHistoryRecord[]> {
+  if (LOCAL_STORAGE || matchKeys.length === 0) {
+    return [];
+  }
+
+  const records: LotHistoryRecord[] = [];
+  for (const matchKey of matchKeys) {
+    const paginator = paginateQuery(
+      { client: docClient },
+      {
+        TableName: TABLE_NAME,
+        KeyConditionExpression: "matchKey = :matchKey",
+        ExpressionAttributeValues: {
+          ":matchKey": matchKey,
+        },
+      }
+    );
+
+    for await (const page of paginator) {
+      if (page.Items) {
+        records.push(...(page.Items as LotHistoryRecord[]));
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Record the offering under all of its match keys
+ * @param records - One record per match key
+ */
+async function save(records: LotHistoryRecord[]): Promise<void> {
+  logger.log("Saving lot history", {
+    auctionId: records[0]?.auctionId,
+    matchKeys: records.map((record) => record.matchKey),
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE || records.length === 0) {
+    return;
+  }
+
+  // Batch write (DynamoDB allows up to 25 items per batch)
+  for (let i = 0; i < records.length; i += 25) {
+    await docClient.send(
+      new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: records.slice(i, i + 25).map((record) => ({
+            PutRequest: {
+              Item: record,
+            },
+          })),
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Remove offerings recorded under match keys that are no longer used (used by migrations)
+ * @param records - Records to remove
+ */
+async function remove(records: Pick<LotHistoryRecord, "matchKey" | "auctionId">[]): Promise<void> {
+  logger.log("Removing lot history", { count: records.length, localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE || records.length === 0) {
+    return;
+  }
+
+  for (let i = 0; i < records.length; i += 25) {
+    await docClient.send(
+      new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: records.slice(i, i + 25).map(({ matchKey, auctionId }) => ({
+            DeleteRequest: {
+              Key: { matchKey, auctionId },
+            },
+          })),
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Get all recorded offerings (used by migrations)
+ */
+async function getAll(): Promise<LotHistoryRecord[]> {
+  if (LOCAL_STORAGE) {
+    return [];
+  }
+
+  const records: LotHistoryRecord[] = [];
+  const paginator = paginateScan({ client: docClient }, { TableName: TABLE_NAME });
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      records.push(...(page.Items as LotHistoryRecord[]));
+    }
+  }
+
+  return records;
+}
+
+export const LotHistoryRepository = {
+  getByMatchKeys,
+  getAll,
+  save,
+  remove,
+};
@@ -0,0 +1,147 @@
+import { Auction } from "../types/Auction.js";
+import { PriceHistoryEntry } from "../types/LotHistory.js";
+import { PropertyKey } from "../types/PropertyIdentifier.js";
+import { generatePropertyId } from "../utils/generatePropertyId.js";
+import { logger } from "../utils/logger.js";
+import { LotHistoryRecord, LotHistoryRepository } from "./LotHistoryRepository.js";
+
+/**
+ * Normalize the case number - case and whitespace differ between announcements
+ */
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Match key of a parcel or building part (the property ID, see generatePropertyId)
+ */
+function getPropertyMatchKey(
+  property: Pick<PropertyKey, "type" | "cadastralMunicipality" | "number">
+): string {
+  return `PROPERTY#${generatePropertyId(property)}`;
+}
+
+/**
+ * Keys that identify the lot across relistings: every property (type, cadastral municipality and
+ * number)
+ * The case number is not a key - one bankruptcy or court case often sells many unrelated lots,
+ * it only confirms a property match (see PriceHistoryEntry.sameCase)
+ */
+function getMatchKeys(auction: Pick<Auction, "properties">): string[] {
+  const keys = new Set<string>();
+  for (const property of auction.properties ?? []) {
+    // A number kept as given would only match the same spelling, not the property
+    if (
+      property.cadastralMunicipality &&
+      property.number &&
+      property.resolution?.status !== "unnormalized"
+    ) {
+      keys.add(getPropertyMatchKey(property));
+    }
+  }
+  return Array.from(keys);
+}
+
+/**
+ * Whether both offerings belong to the same case
+ * @returns null if either case number is unknown
+ */
+function isSameCase(caseNumber: string | null | undefined, other: string | null | undefined) {
+  if (!caseNumber || !other) {
+    return null;
+  }
+  return normalize(caseNumber) === normalize(other);
+}
+
+function getOfferingDate(record: { dueDate?: string | null; publicationDate?: string | null }) {
+  return record.dueDate ?? record.publicationDate;
+}
+
+/**
+ * Find the earlier offerings of the auction's lot and record the auction as its latest offering
+ * Only offerings with an earlier date count, so the same auction published by several sources
+ * at the same time is not a relisting
+ * @param auctionId - ID of the auction being saved
+ * @param auction - The auction being saved
+ * @returns Earlier offerings, newest first
+ */
+async function recordOffering(auctionId: string, auction: Auction): Promise<PriceHistoryEntry[]> {
+  const matchKeys = getMatchKeys(auction);
+  if (matchKeys.length === 0) {
+    return [];
+  }
+
+  const currentDate = getOfferingDate(auction);
+  const currentTime = currentDate ? Date.parse(currentDate) : NaN;
+
+  const earlier = new Map<string, LotHistoryRecord>();
+  for (const record of await LotHistoryRepository.getByMatchKeys(matchKeys)) {
+    if (record.auctionId === auctionId || earlier.has(record.auctionId)) {
+      continue;
+    }
+    const date = getOfferingDate(record);
+    const time = date ? Date.parse(date) : NaN;
+    if (!isNaN(currentTime) && !isNaN(time) && time >= currentTime) {
+      continue;
+    }
+    earlier.set(record.auctionId, record);
+  }
+
+  const history: PriceHistoryEntry[] = Array.from(earlier.values())
+    .map((record) => ({
+      auctionId: record.auctionId,
+      dataSourceCode: record.dataSourceCode,
+      url: record.url,
+      price: record.price,
+      date: getOfferingDate(record),
+      sameCase: isSameCase(auction.caseNumber, record.caseNumber),
+      changePercent:
+        auction.price != null && record.price
+          ? Math.round(((auction.price - record.price) / record.price) * 100)
+          : null,
+    }))
+    .sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+
+  const recordedAt = new Date().toISOString();
+  await LotHistoryRepository.save(
+    matchKeys.map((matchKey) => ({
+      matchKey,
+      auctionId,
+      dataSourceCode: auction.dataSourceCode,
+      url: auction.urlSources[0] ?? null,
+      price: auction.price,
+      dueDate: auction.dueDate,
+      publicationDate: auction.publicationDate,
+      caseNumber: auction.caseNumber ?? null,
+      recordedAt,
+    }))
+  );
+
+  if (history.length > 0) {
+    logger.log("Relisting detected", { auctionId, matchKeys, history });
+  }
+
+  return history;
+}
+
+/**
+ * Format an earlier offering, e.g. "Prej ponujeno po 120.000 € dne 2025-01-10 (−15 %)"
+ * Offerings of the same case are marked with "v istem postopku"
+ */
+function formatPriceHistoryEntry(entry: PriceHistoryEntry): string {
+  const price = entry.price != null ? ` po ${entry.price.toLocaleString("sl-SI")} €` : "";
+  const date = entry.date ? ` dne ${entry.date}` : "";
+  const change =
+    entry.changePercent != null && entry.changePercent !== 0
+      ? ` (${entry.changePercent < 0 ? "−" : "+"}${Math.abs(entry.changePercent)} %)`
+      : "";
+  const sameCase = entry.sameCase ? " v istem postopku" : "";
+  return `Prej ponujeno${sameCase}${price}${date}${change}`;
+}
+
+export const LotHistoryService = {
+  getPropertyMatchKey,
+  getMatchKeys,
+  recordOffering,
+  formatPriceHistoryEntry,
+};
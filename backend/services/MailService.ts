@@ -0,0 +1,117 @@
+import { SESv2Client, SendEmailCommand } from "@aws-sdk/client-sesv2";
+import { logger } from "../utils/logger.js";
+
+const MAIL_FROM = process.env.MAIL_FROM || "marko@strukelj.net";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+
+/**
+ * Email message
+ */
+export type MailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain text alternative */
+  text?: string;
+};
+
+/**
+ * Mail transport - sends a message (SES in AWS, file locally)
+ */
+export type MailTransport = {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+let sesClient: SESv2Client | undefined;
+
+/**
+ * SES transport - MAIL_FROM must be a verified SES identity
+ */
+const sesTransport: MailTransport = {
+  name: "ses",
+  async send(message) {
+    sesClient ??= new SESv2Client({});
+    await sesClient.send(
+      new SendEmailCommand({
+        FromEmailAddress: MAIL_FROM,
+        Destination: { ToAddresses: [message.to] },
+        Content: {
+          Simple: {
+            Subject: { Data: message.subject, Charset: "UTF-8" },
+            Body: {
+              Html: { Data: message.html, Charset: "UTF-8" },
+              ...(message.text ? { Text: { Data: message.text, Charset: "UTF-8" } } : {}),
+            },
+          },
+        },
+      })
+    );
+  },
+};
+
+/**
+ * File transport - writes the HTML to the local export folder instead of sending it
+ */
+const fileTransport: MailTransport = {
+  name: "file",
+  async send(message) {
+    logger.logContent(
+      "Mail saved (file transport)",
+      { to: message.to, subject: message.subject },
+      {
+        content: message.html,
+        prefix: "mail",
+        suffix: message.to.replace(/[^a-zA-Z0-9.-]/g, "_"),
+        extension: "html",
+      }
+    );
+  },
+};
+
+const TRANSPORTS: Record<string, MailTransport> = {
+  ses: sesTransport,
+  file: fileTransport,
+};
+
+let transport: MailTransport | undefined;
+
+/**
+ * Get the configured transport
+ * MAIL_TRANSPORT env variable ("ses" or "file"), defaults to file in local storage mode
+ */
+function getTransport(): MailTransport {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || (LOCAL_STORAGE ? "file" : "ses");
+    transport = TRANSPORTS[name];
+    if (!transport) {
+      throw new Error(`Unknown mail transport: ${name}`);
+    }
+  }
+  return transport;
+}
+
+/**
+ * Replace the transport (e.g. with an SMTP transport for local testing)
+ */
+function setTransport(customTransport: MailTransport): void {
+  transport = customTransport;
+}
+
+/**
+ * Send an email with the configured transport
+ */
+async function send(message: MailMessage): Promise<void> {
+  const current = getTransport();
+
+  logger.log("Sending mail", { to: message.to, subject: message.subject, transport: current.name });
+
+  await current.send(message);
+
+  logger.log("Mail sent", { to: message.to, transport: current.name });
+}
+
+export const MailService = {
+  send,
+  setTransport,
+};
@@ -0,0 +1,81 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.NOTIFICATION_TABLE_NAME || "NotificationTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+const RETENTION_DAYS = 180;
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Sent notification record - used to deliver each notification only once
+ */
+export type NotificationRecord = {
+  userId: string;
+  /** Sort key, e.g. auctionId#telegram:123456 */
+  notificationKey: string;
+  sentAt: string;
+  /** TTL - Unix timestamp (seconds) */
+  ttl: number;
+};
+
+/**
+ * Check whether a notification was already sent
+ * @param userId - The user ID
+ * @param notificationKey - Unique key of the notification for the user
+ */
+async function isSent(userId: string, notificationKey: string): Promise<boolean> {
+  if (LOCAL_STORAGE) {
+    return false;
+  }
+
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { userId, notificationKey },
+    })
+  );
+
+  return !!result.Item;
+}
+
+/**
+ * Mark a notification as sent
+ * @param userId - The user ID
+ * @param notificationKey - Unique key of the notification for the user
+ */
+async function markSent(userId: string, notificationKey: string): Promise<void> {
+  const now = new Date();
+  const record: NotificationRecord = {
+    userId,
+    notificationKey,
+    sentAt: now.toISOString(),
+    ttl: Math.floor(now.getTime() / 1000) + RETENTION_DAYS * 24 * 60 * 60,
+  };
+
+  logger.log("Marking notification as sent", {
+    userId,
+    notificationKey,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: record,
+    })
+  );
+}
+
+export const NotificationRepository = {
+  isSent,
+  markSent,
+};
@@ -0,0 +1,387 @@
+import { createHmac } from "crypto";
+import { Auction } from "../types/Auction.js";
+import {
+  AlertChannel,
+  EmailAlertChannel,
+  TelegramAlertChannel,
+  WebhookAlertChannel,
+} from "../types/AlertChannel.js";
+import { PriceDrop } from "../types/PropertyFlag.js";
+import { Reminder } from "../types/Reminder.js";
+import { UserProfile } from "../types/UserProfile.js";
+import { config } from "../utils/config.js";
+import { hash } from "../utils/hash.js";
+import { logger } from "../utils/logger.js";
+import { MailService } from "./MailService.js";
+import { NotificationRepository } from "./NotificationRepository.js";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Notification delivered to the user's channels
+ */
+type Notification = {
+  event: "auction.match" | "auction.reminder" | "auction.price-drop";
+  auction: Auction;
+  /** Set for auction.reminder */
+  reminder?: Reminder;
+  /** Set for auction.price-drop */
+  priceDrop?: PriceDrop;
+};
+
+/**
+ * Unique key of the channel within the user's channels
+ */
+function getChannelKey(channel: AlertChannel): string {
+  switch (channel.type) {
+    case "webhook":
+      return `webhook:${hash(channel.url)}`;
+    case "telegram":
+      return `telegram:${channel.chatId}`;
+    case "email":
+      return `email:${hash(channel.to)}`;
+  }
+}
+
+/**
+ * Call fn, retrying with exponential backoff on failure
+ */
+async function withRetry<T>(fn: () => Promise<T>, description: string): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      logger.warn("Alert delivery failed, retrying", error, { description, attempt });
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/**
+ * POST the notification with the auction as JSON to the webhook
+ * Signature header: sha256=HMAC-SHA256(secret, `${timestamp}.${body}`)
+ */
+async function sendWebhook(
+  channel: WebhookAlertChannel,
+  profile: UserProfile,
+  notification: Notification
+): Promise<void> {
+  const { event, auction, reminder, priceDrop } = notification;
+  const body = JSON.stringify({ event, userId: profile.userId, auction, reminder, priceDrop });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = createHmac("sha256", channel.secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  const response = await fetch(channel.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Drazbe-Timestamp": timestamp,
+      "X-Drazbe-Signature": `sha256=${signature}`,
+    },
+    body,
+    signal: AbortSignal.timeout(10_000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function getTitle(auction: Auction): string {
+  return auction.aiSuitability || auction.aiTitle || auction.title;
+}
+
+/**
+ * Reminder text, e.g. "Rok poteče čez 2 dni (2025-03-14)"
+ */
+function formatReminder(reminder: Reminder): string {
+  const what = reminder.kind === "due" ? "Rok poteče" : "Ogled bo";
+  const when =
+    reminder.daysLeft === 0
+      ? "danes"
+      : reminder.daysLeft === 1
+        ? "jutri"
+        : `čez ${reminder.daysLeft} dni`;
+  return `${what} ${when} (${reminder.date})`;
+}
+
+function formatEuro(value: number): string {
+  return `${value.toLocaleString("sl-SI")} €`;
+}
+
+/**
+ * Price drop text, e.g. "Označena nepremičnina je spet naprodaj po 100.000 € (prej 120.000 €, −20.000 €, −17 %)"
+ */
+function formatPriceDrop(priceDrop: PriceDrop, auction: Auction): string {
+  const parts: string[] = [];
+  if (priceDrop.previousPrice != null) {
+    parts.push(`prej ${formatEuro(priceDrop.previousPrice)}`);
+  }
+  if (priceDrop.priceDelta != null && priceDrop.priceDelta !== 0) {
+    const sign = priceDrop.priceDelta < 0 ? "−" : "+";
+    parts.push(`${sign}${formatEuro(Math.abs(priceDrop.priceDelta))}`);
+  }
+  if (priceDrop.changePercent != null && priceDrop.changePercent !== 0) {
+    const sign = priceDrop.changePercent < 0 ? "−" : "+";
+    parts.push(`${sign}${Math.abs(priceDrop.changePercent)} %`);
+  }
+
+  const label = priceDrop.flag === "rejected" ? "Zavrnjena" : "Označena";
+  const price = auction.price != null ? ` po ${formatEuro(auction.price)}` : "";
+  const delta = parts.length > 0 ? ` (${parts.join(", ")})` : "";
+  const becameAuction = priceDrop.becameAuction ? " - namera o prodaji je postala prodaja" : "";
+  return `${label} nepremičnina je spet naprodaj${price}${delta}${becameAuction}`;
+}
+
+/**
+ * Headline of reminders and price drops (null for top match alerts)
+ */
+function getHeadline(notification: Notification): string | null {
+  if (notification.reminder) {
+    return formatReminder(notification.reminder);
+  }
+  if (notification.priceDrop) {
+    return formatPriceDrop(notification.priceDrop, notification.auction);
+  }
+  return null;
+}
+
+/**
+ * Format the Telegram message (HTML parse mode)
+ */
+function formatTelegramMessage(notification: Notification): string {
+  const { auction, reminder, priceDrop } = notification;
+  const lines: string[] = [];
+  const title = getTitle(auction);
+  const link = auction.urlSources[0];
+  const headline = getHeadline(notification);
+
+  if (headline) {
+    lines.push(`${reminder ? "⏰" : "📉"} <b>${escapeHtml(headline)}</b>`);
+  }
+  lines.push(link ? `<a href="${escapeHtml(link)}">${escapeHtml(title)}</a>` : escapeHtml(title));
+  if (auction.price != null) {
+    lines.push(`Cena: ${auction.price.toLocaleString("sl-SI")} €`);
+  }
+  if (auction.dueDate) {
+    lines.push(`Rok: ${escapeHtml(auction.dueDate)}`);
+  }
+  if (auction.drivingInfo?.drivingTimeMinutes != null) {
+    lines.push(`Vožnja: ${auction.drivingInfo.drivingTimeMinutes} min`);
+  }
+  if (priceDrop?.previousUrl) {
+    lines.push(`<a href="${escapeHtml(priceDrop.previousUrl)}">Prejšnja objava</a>`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Send a Telegram message with the bot
+ */
+async function sendTelegram(
+  channel: TelegramAlertChannel,
+  notification: Notification
+): Promise<void> {
+  const token = await config.get("/drazbe-ai/telegram-bot-token");
+  if (!token) {
+    throw new Error("Telegram bot token is not configured");
+  }
+
+  const response = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      chat_id: channel.chatId,
+      text: formatTelegramMessage(notification),
+      parse_mode: "HTML",
+    }),
+    signal: AbortSignal.timeout(10_000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Telegram responded with ${response.status}: ${await response.text()}`);
+  }
+}
+
+/**
+ * Send a short email with a link to the auction (and the previous announcement for price drops)
+ */
+async function sendEmail(channel: EmailAlertChannel, notification: Notification): Promise<void> {
+  const { auction, priceDrop } = notification;
+  const title = getTitle(auction);
+  const link = auction.urlSources[0] || "";
+  const headline = getHeadline(notification);
+  const heading = headline ?? "Nova dražba, ki ustreza tvojim kriterijem";
+  const previousUrl = priceDrop?.previousUrl;
+
+  await MailService.send({
+    to: channel.to,
+    subject: `Dražbe AI - ${headline ?? "odlično ujemanje"}: ${title}`,
+    html: `<p><strong>${escapeHtml(heading)}</strong></p>
+<p><a href="${escapeHtml(link)}">${escapeHtml(title)}</a></p>${
+      previousUrl ? `\n<p><a href="${escapeHtml(previousUrl)}">Prejšnja objava</a></p>` : ""
+    }`,
+    text: [heading, title, link, previousUrl ? `Prejšnja objava: ${previousUrl}` : null]
+      .filter((line): line is string => !!line)
+      .join("\n"),
+  });
+}
+
+async function sendToChannel(
+  channel: AlertChannel,
+  profile: UserProfile,
+  notification: Notification
+): Promise<void> {
+  switch (channel.type) {
+    case "webhook":
+      return sendWebhook(channel, profile, notification);
+    case "telegram":
+      return sendTelegram(channel, notification);
+    case "email":
+      return sendEmail(channel, notification);
+  }
+}
+
+/**
+ * Deliver the notification to all channels, each channel only once per notification key
+ * Channels that failed after retries are reported by throwing, so the delivery can be repeated
+ * without repeating the successful ones
+ */
+async function deliver(
+  profile: UserProfile,
+  channels: AlertChannel[],
+  notification: Notification,
+  notificationKeyPrefix: string
+): Promise<void> {
+  const { userId } = profile;
+  const { auctionId } = notification.auction;
+  const failed: string[] = [];
+
+  for (const channel of channels) {
+    const channelKey = getChannelKey(channel);
+    const notificationKey = `${notificationKeyPrefix}#${channelKey}`;
+
+    if (await NotificationRepository.isSent(userId, notificationKey)) {
+      logger.log("Notification already sent, skipping", { userId, notificationKey });
+      continue;
+    }
+
+    try {
+      await withRetry(() => sendToChannel(channel, profile, notification), channelKey);
+      await NotificationRepository.markSent(userId, notificationKey);
+      logger.log("Notification sent", {
+        userId,
+        auctionId,
+        event: notification.event,
+        channelKey,
+      });
+    } catch (error) {
+      logger.warn("Failed to send notification", error, { userId, notificationKey });
+      failed.push(channelKey);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Failed to send ${notification.event} to ${failed.join(", ")}`);
+  }
+}
+
+/**
+ * Channels for reminders and price drops - the user's alert channels, or the user's email
+ */
+function getPersonalChannels(profile: UserProfile): AlertChannel[] {
+  if (profile.alertChannels?.length) {
+    return profile.alertChannels;
+  }
+  return profile.email ? [{ type: "email", to: profile.email }] : [];
+}
+
+/**
+ * Alert the user about a top match on all of the user's alert channels
+ * Each channel is alerted only once per auction
+ * @param profile - The user to alert
+ * @param auction - The auction with the user's suitability attached
+ */
+async function sendAlert(profile: UserProfile, auction: Auction): Promise<void> {
+  await deliver(
+    profile,
+    profile.alertChannels ?? [],
+    { event: "auction.match", auction },
+    auction.auctionId
+  );
+}
+
+/**
+ * Remind the user about an upcoming deadline or viewing of a watched auction
+ * Sent to the user's alert channels, or to the user's email if no channels are set
+ * Each channel gets the reminder for the same date and offset only once
+ * @param profile - The user to remind
+ * @param auction - The watched auction
+ * @param reminder - The reminder (see ReminderService)
+ */
+async function sendReminder(
+  profile: UserProfile,
+  auction: Auction,
+  reminder: Reminder
+): Promise<void> {
+  const channels = getPersonalChannels(profile);
+  if (channels.length === 0) {
+    logger.warn("No channels to send the reminder to", { userId: profile.userId });
+    return;
+  }
+
+  const reminderKey = `reminder:${reminder.kind}:${reminder.date}:${reminder.offsetDays}`;
+  await deliver(
+    profile,
+    channels,
+    { event: "auction.reminder", auction, reminder },
+    `${auction.auctionId}#${reminderKey}`
+  );
+}
+
+/**
+ * Alert the user that a flagged property came back cheaper or as an actual auction
+ * Sent to the user's alert channels, or to the user's email if no channels are set
+ * Each channel is alerted only once per new auction
+ * @param profile - The user who flagged the property
+ * @param auction - The new auction with the property
+ * @param priceDrop - Comparison with the previous offering (see PropertyFlagService.checkFlaggedProperties)
+ */
+async function sendPriceDrop(
+  profile: UserProfile,
+  auction: Auction,
+  priceDrop: PriceDrop
+): Promise<void> {
+  const channels = getPersonalChannels(profile);
+  if (channels.length === 0) {
+    logger.warn("No channels to send the price drop alert to", { userId: profile.userId });
+    return;
+  }
+
+  await deliver(
+    profile,
+    channels,
+    { event: "auction.price-drop", auction, priceDrop },
+    `${auction.auctionId}#price-drop`
+  );
+}
+
+export const NotificationService = {
+  sendAlert,
+  sendReminder,
+  sendPriceDrop,
+};
@@ -0,0 +1,140 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, PutCommand, paginateQuery } from "@aws-sdk/lib-dynamodb";
+import { AuctionOutcome } from "../types/AuctionOutcome.js";
+import { PriceSegment } from "../types/PriceEstimate.js";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.OUTCOME_TABLE_NAME || "OutcomeTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+const GSI_NAME = "pending";
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Outcome tracking of a published auction - outlives the auction records, which expire
+ * one day after dueDate, so the announcement can be revisited later
+ */
+export type OutcomeTrackingRecord = {
+  /** Partition key */
+  auctionId: string;
+  dataSourceCode: string;
+  /** Announcement URL that is revisited */
+  url: string;
+  title: string;
+  price: number | null;
+  /** Sum of GURS valuations of the auction's properties */
+  gursValue: number | null;
+  /** Segment of the auction for the final price statistics (see PriceEstimateService) */
+  segment: PriceSegment;
+  /** Deadline of the auction (new deadline after a postponement) */
+  dueDate: string;
+  /** "pending" GSI partition key - set to "PENDING" while the outcome is not known */
+  gsiPk?: "PENDING";
+  /** "pending" GSI sort key - the next check is due after this timestamp */
+  checkAfter: string;
+  /** Number of checks since dueDate */
+  checks: number;
+  outcome: AuctionOutcome | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Start tracking the outcome of an auction
+ * An auction that is already tracked is left as it is (e.g. when it is analyzed again)
+ * @returns true if tracking started
+ */
+async function track(record: OutcomeTrackingRecord): Promise<boolean> {
+  logger.log("Tracking auction outcome", {
+    auctionId: record.auctionId,
+    checkAfter: record.checkAfter,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return true;
+  }
+
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: record,
+        ConditionExpression: "attribute_not_exists(auctionId)",
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      logger.log("Auction outcome already tracked", { auctionId: record.auctionId });
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Save the tracking record (after a check)
+ */
+async function save(record: OutcomeTrackingRecord): Promise<void> {
+  logger.log("Saving auction outcome tracking", {
+    auctionId: record.auctionId,
+    status: record.outcome?.status,
+    pending: record.gsiPk === "PENDING",
+    checks: record.checks,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: record,
+    })
+  );
+}
+
+/**
+ * Get the auctions whose outcome check is due
+ * @param now - Current timestamp (ISO)
+ */
+async function getDue(now: string): Promise<OutcomeTrackingRecord[]> {
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch pending outcomes");
+    return [];
+  }
+
+  const records: OutcomeTrackingRecord[] = [];
+  const paginator = paginateQuery(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      IndexName: GSI_NAME,
+      KeyConditionExpression: "gsiPk = :gsiPk AND checkAfter <= :now",
+      ExpressionAttributeValues: {
+        ":gsiPk": "PENDING",
+        ":now": now,
+      },
+    }
+  );
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      records.push(...(page.Items as OutcomeTrackingRecord[]));
+    }
+  }
+
+  return records;
+}
+
+export const OutcomeRepository = {
+  track,
+  save,
+  getDue,
+};
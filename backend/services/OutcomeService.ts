@@ -0,0 +1,207 @@
+import * as cheerio from "cheerio";
+import TurndownService from "turndown";
+import { Auction } from "../types/Auction.js";
+import { AuctionOutcome } from "../types/AuctionOutcome.js";
+import { logger } from "../utils/logger.js";
+import { AiOutcomeService } from "./AiOutcomeService.js";
+import { ArchiveRepository } from "./ArchiveRepository.js";
+import { AuctionRepository } from "./AuctionRepository.js";
+import { OutcomeRepository, OutcomeTrackingRecord } from "./OutcomeRepository.js";
+import { PriceEstimateService } from "./PriceEstimateService.js";
+import { SodneDrazbeService } from "./SodneDrazbeService.js";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+/** Days after dueDate when the announcement is revisited, results are often published late */
+const CHECK_OFFSETS_DAYS = [1, 3, 7, 14, 30];
+/** Keep the AI input small, the outcome is a short notice */
+const MAX_MARKDOWN_LENGTH = 30_000;
+
+function getCheckAfter(dueDate: string, check: number): string {
+  return new Date(Date.parse(dueDate) + CHECK_OFFSETS_DAYS[check] * ONE_DAY_MS).toISOString();
+}
+
+/**
+ * Start tracking the outcome of a published auction
+ * Auctions without a dueDate or announcement URL cannot be revisited and are skipped
+ */
+async function trackAuction(auction: Auction): Promise<void> {
+  const { auctionId, dueDate } = auction;
+  const url = auction.urlSources[0];
+
+  if (!dueDate || isNaN(Date.parse(dueDate)) || !url || url.toLowerCase().endsWith(".pdf")) {
+    logger.log("Auction outcome not tracked", { auctionId, dueDate, url });
+    return;
+  }
+
+  const now = new Date().toISOString();
+  await OutcomeRepository.track({
+    auctionId,
+    dataSourceCode: auction.dataSourceCode,
+    url,
+    title: auction.aiTitle || auction.title,
+    price: auction.price,
+    gursValue: auction.priceToValueRatio?.totalPropertyValuation ?? null,
+    segment: PriceEstimateService.getSegment(auction),
+    dueDate,
+    gsiPk: "PENDING",
+    checkAfter: getCheckAfter(dueDate, 0),
+    checks: 0,
+    outcome: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Current content of the announcement as markdown
+ */
+async function fetchAnnouncementMarkdown(url: string): Promise<string> {
+  if (SodneDrazbeService.isSodneDrazbeUrl(url)) {
+    return SodneDrazbeService.fetchMarkdown(url);
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch announcement ${url}, HTTP ${response.status}`);
+  }
+
+  const $ = cheerio.load(await response.text());
+  $("script, style, noscript, nav, header, footer, svg").remove();
+  return new TurndownService().turndown($("body").html() ?? "");
+}
+
+/**
+ * Save the outcome in the archive, and on the MAIN record in the rare case it has not expired yet
+ * (it expires one day after dueDate). The outcome table keeps it on the tracking record
+ */
+async function recordOutcome(record: OutcomeTrackingRecord, outcome: AuctionOutcome) {
+  const { auctionId } = record;
+
+  const onMain = await AuctionRepository.updateOutcome(auctionId, outcome);
+  await ArchiveRepository.saveOutcome({
+    auctionId,
+    dataSourceCode: record.dataSourceCode,
+    title: record.title,
+    price: record.price,
+    dueDate: record.dueDate,
+    ...outcome,
+  });
+
+  // Sold auctions feed the final price estimates
+  if (outcome.status === "sold" && outcome.achievedPrice > 0 && record.segment) {
+    await PriceEstimateService.recordOutcome(auctionId, record.segment, {
+      achievedPrice: outcome.achievedPrice,
+      price: record.price,
+      gursValue: record.gursValue ?? null,
+    });
+  }
+
+  logger.log("Auction outcome recorded", { auctionId, status: outcome.status, onMain });
+}
+
+/**
+ * Revisit the announcement and record the outcome if it is published
+ * Unknown outcomes are checked again later (see CHECK_OFFSETS_DAYS), a postponed auction
+ * is tracked again from its new deadline
+ */
+async function checkOutcome(record: OutcomeTrackingRecord): Promise<OutcomeTrackingRecord> {
+  const { auctionId, url } = record;
+  const now = new Date().toISOString();
+
+  const markdown = await fetchAnnouncementMarkdown(url);
+  const extraction = markdown.trim()
+    ? await AiOutcomeService.extractOutcome(markdown.slice(0, MAX_MARKDOWN_LENGTH), record)
+    : null;
+
+  logger.log("Auction outcome checked", {
+    auctionId,
+    url,
+    check: record.checks + 1,
+    extraction,
+  });
+
+  const updated: OutcomeTrackingRecord = { ...record, checks: record.checks + 1, updatedAt: now };
+
+  if (!extraction || extraction.status === "unknown") {
+    if (updated.checks < CHECK_OFFSETS_DAYS.length) {
+      updated.checkAfter = getCheckAfter(record.dueDate, updated.checks);
+    } else {
+      // Give up - the source does not publish the outcome
+      delete updated.gsiPk;
+    }
+    return updated;
+  }
+
+  const { status, ...details } = extraction;
+  const outcome: AuctionOutcome = { ...details, status, sourceUrl: url, checkedAt: now };
+  updated.outcome = outcome;
+  await recordOutcome(record, outcome);
+
+  if (status === "postponed" && outcome.newDueDate && !isNaN(Date.parse(outcome.newDueDate))) {
+    updated.dueDate = outcome.newDueDate;
+    updated.checks = 0;
+    updated.checkAfter = getCheckAfter(outcome.newDueDate, 0);
+  } else if (status === "postponed" && updated.checks < CHECK_OFFSETS_DAYS.length) {
+    // New date not published yet
+    updated.checkAfter = getCheckAfter(record.dueDate, updated.checks);
+  } else {
+    delete updated.gsiPk;
+  }
+
+  return updated;
+}
+
+/**
+ * Count a check that failed (e.g. the announcement page was removed after the deadline)
+ * The check is repeated at the next offset, after CHECK_OFFSETS_DAYS.length checks it gives up
+ */
+function countFailedCheck(record: OutcomeTrackingRecord): OutcomeTrackingRecord {
+  const updated: OutcomeTrackingRecord = {
+    ...record,
+    checks: record.checks + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  if (updated.checks < CHECK_OFFSETS_DAYS.length) {
+    updated.checkAfter = getCheckAfter(record.dueDate, updated.checks);
+  } else {
+    delete updated.gsiPk;
+  }
+  return updated;
+}
+
+/**
+ * Check the outcomes of all auctions whose check is due
+ * @returns Number of checked auctions and of failed checks
+ */
+async function checkDueOutcomes(): Promise<{ checked: number; failed: number }> {
+  const records = await OutcomeRepository.getDue(new Date().toISOString());
+  logger.log("Checking auction outcomes", { count: records.length });
+
+  let checked = 0;
+  let failed = 0;
+  for (const record of records) {
+    try {
+      await OutcomeRepository.save(await checkOutcome(record));
+      checked++;
+    } catch (error) {
+      // Do not block the other auctions, the check is repeated at the next offset
+      failed++;
+      const updated = countFailedCheck(record);
+      logger.error("Failed to check auction outcome", error, {
+        auctionId: record.auctionId,
+        url: record.url,
+        checks: updated.checks,
+        givenUp: !updated.gsiPk,
+      });
+      await OutcomeRepository.save(updated);
+    }
+  }
+
+  return { checked, failed };
+}
+
+export const OutcomeService = {
+  trackAuction,
+  checkOutcome,
+  checkDueOutcomes,
+};
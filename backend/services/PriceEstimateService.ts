@@ -0,0 +1,150 @@
+import { Auction } from "../types/Auction.js";
+import { PriceEstimate, PriceSegment } from "../types/PriceEstimate.js";
+import { logger } from "../utils/logger.js";
+import { PriceOutcomeRecord, PriceOutcomeRepository } from "./PriceOutcomeRepository.js";
+
+/** Fewer sold auctions than this do not make a meaningful interval, a broader segment is used */
+const MIN_SAMPLES = 5;
+/** Later rounds behave alike */
+const MAX_ROUND = 3;
+
+type SegmentAuction = Pick<
+  Auction,
+  "type" | "properties" | "municipality" | "auctionRound" | "priceHistory"
+>;
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Segment of the auction - type, kind of property, municipality and auction round
+ * The round is taken from the announcement, or counted from the earlier offerings of the lot
+ */
+function getSegment(auction: SegmentAuction): PriceSegment {
+  const properties = auction.properties ?? [];
+  const building = properties.find((p) => p.buildingType);
+  const parcel = properties.find((p) => p.parcelType);
+  const round = auction.auctionRound ?? (auction.priceHistory?.length ?? 0) + 1;
+
+  return {
+    type: auction.type,
+    propertyKind: building?.buildingType ?? parcel?.parcelType ?? null,
+    municipality: auction.municipality ? normalize(auction.municipality) : null,
+    round: Math.min(Math.max(Math.round(round), 1), MAX_ROUND),
+  };
+}
+
+/**
+ * Segment keys from the most specific to the broadest
+ * e.g. T#javna-drazba#K#residential#M#ljubljana#R#2, ..., T#javna-drazba, ALL
+ */
+function getSegmentKeys(segment: PriceSegment): string[] {
+  const type = `T#${segment.type}`;
+  const kind = `${type}#K#${segment.propertyKind ?? "unknown"}`;
+  const round = `R#${segment.round}`;
+  const keys = segment.municipality
+    ? [`${kind}#M#${segment.municipality}#${round}`, `${kind}#M#${segment.municipality}`]
+    : [];
+  return [...keys, `${kind}#${round}`, kind, type, "ALL"];
+}
+
+/**
+ * Percentile with linear interpolation
+ * @param sorted - Values sorted ascending
+ * @param p - Percentile 0 - 1
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Estimate the final (winning) price of the auction from the final prices of similar sold auctions
+ * The most specific segment with at least MIN_SAMPLES sold auctions is used
+ * @returns null without a starting price or GURS value, or without enough sold auctions
+ */
+async function estimate(auction: Auction): Promise<PriceEstimate | null> {
+  const gursValue = auction.priceToValueRatio?.totalPropertyValuation;
+  const basis = auction.price > 0 ? "startingPrice" : gursValue > 0 ? "gursValue" : null;
+  if (!basis) {
+    return null;
+  }
+  const basisValue = basis === "startingPrice" ? auction.price : gursValue;
+  const getRatio = (record: PriceOutcomeRecord) =>
+    basis === "startingPrice" ? record.finalToStart : record.finalToGurs;
+
+  for (const segmentKey of getSegmentKeys(getSegment(auction))) {
+    const ratios = (await PriceOutcomeRepository.getBySegmentKey(segmentKey))
+      .map(getRatio)
+      .filter((ratio): ratio is number => ratio != null && ratio > 0)
+      .sort((a, b) => a - b);
+
+    if (ratios.length < MIN_SAMPLES) {
+      continue;
+    }
+
+    const ratio = percentile(ratios, 0.5);
+    const priceEstimate: PriceEstimate = {
+      basis,
+      estimate: Math.round(basisValue * ratio),
+      low: Math.round(basisValue * percentile(ratios, 0.1)),
+      high: Math.round(basisValue * percentile(ratios, 0.9)),
+      ratio: Math.round(ratio * 100) / 100,
+      sampleCount: ratios.length,
+      segmentKey,
+    };
+
+    logger.log("Final price estimated", { title: auction.title, priceEstimate });
+    return priceEstimate;
+  }
+
+  return null;
+}
+
+/**
+ * Record the final price of a sold auction under all of its segments
+ * @param auctionId - The auction ID
+ * @param segment - Segment of the auction (see getSegment)
+ * @param prices - Achieved price, starting price and GURS value of the auction
+ */
+async function recordOutcome(
+  auctionId: string,
+  segment: PriceSegment,
+  prices: { achievedPrice: number; price: number | null; gursValue: number | null }
+): Promise<void> {
+  const { achievedPrice, price, gursValue } = prices;
+  const recordedAt = new Date().toISOString();
+
+  await PriceOutcomeRepository.save(
+    getSegmentKeys(segment).map((segmentKey) => ({
+      segmentKey,
+      auctionId,
+      achievedPrice,
+      price,
+      gursValue,
+      finalToStart: price > 0 ? achievedPrice / price : null,
+      finalToGurs: gursValue > 0 ? achievedPrice / gursValue : null,
+      recordedAt,
+    }))
+  );
+}
+
+/**
+ * Format the estimate, e.g.
+ * "Pričakovana končna cena: 105.000 € (80 % interval 95.000 – 130.000 €, 23 prodanih dražb)"
+ */
+function formatPriceEstimate(priceEstimate: PriceEstimate): string {
+  const format = (value: number) => value.toLocaleString("sl-SI");
+  const basis = priceEstimate.basis === "gursValue" ? ", glede na GURS vrednost" : "";
+  return `Pričakovana končna cena: ${format(priceEstimate.estimate)} € (80 % interval ${format(priceEstimate.low)} – ${format(priceEstimate.high)} €, ${priceEstimate.sampleCount} prodanih dražb${basis})`;
+}
+
+export const PriceEstimateService = {
+  getSegment,
+  estimate,
+  recordOutcome,
+  formatPriceEstimate,
+};
@@ -0,0 +1,97 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, BatchWriteCommand, paginateQuery } from "@aws-sdk/lib-dynamodb";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.PRICE_OUTCOME_TABLE_NAME || "PriceOutcomeTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Final price of a sold auction - one record per segment of the auction (see PriceEstimateService),
+ * so the samples of a segment are read with a single query
+ */
+export type PriceOutcomeRecord = {
+  /** Partition key, e.g. T#javna-drazba#K#residential#M#ljubljana */
+  segmentKey: string;
+  /** Sort key */
+  auctionId: string;
+  achievedPrice: number;
+  /** Starting price */
+  price: number | null;
+  gursValue: number | null;
+  /** achievedPrice / price */
+  finalToStart: number | null;
+  /** achievedPrice / gursValue */
+  finalToGurs: number | null;
+  /** Timestamp when the outcome was recorded */
+  recordedAt: string;
+};
+
+/**
+ * Get the final prices recorded under the segment
+ */
+async function getBySegmentKey(segmentKey: string): Promise<PriceOutcomeRecord[]> {
+  if (LOCAL_STORAGE) {
+    return [];
+  }
+
+  const records: PriceOutcomeRecord[] = [];
+  const paginator = paginateQuery(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      KeyConditionExpression: "segmentKey = :segmentKey",
+      ExpressionAttributeValues: {
+        ":segmentKey": segmentKey,
+      },
+    }
+  );
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      records.push(...(page.Items as PriceOutcomeRecord[]));
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Record the final price under all segments of the auction
+ * @param records - One record per segment
+ */
+async function save(records: PriceOutcomeRecord[]): Promise<void> {
+  logger.log("Saving price outcome", {
+    auctionId: records[0]?.auctionId,
+    segmentKeys: records.map((record) => record.segmentKey),
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE || records.length === 0) {
+    return;
+  }
+
+  // Batch write (DynamoDB allows up to 25 items per batch)
+  for (let i = 0; i < records.length; i += 25) {
+    await docClient.send(
+      new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: records.slice(i, i + 25).map((record) => ({
+            PutRequest: {
+              Item: record,
+            },
+          })),
+        },
+      })
+    );
+  }
+}
+
+export const PriceOutcomeRepository = {
+  getBySegmentKey,
+  save,
+};
@@ -0,0 +1,124 @@
+import { AuctionProperty, PriceToValueRatio } from "../types/Auction.js";
+import { AuctionBase } from "../types/AuctionBase.js";
+import { getOwnershipFactor, getPropertyArea } from "../utils/propertyArea.js";
+import { ComparablesService } from "./ComparablesService.js";
+import { ValuationAggregationService } from "./ValuationAggregationService.js";
+
+type RatioAuction = Pick<AuctionBase, "price" | "estimatedValue" | "ownershipShare">;
+
+function isBuilding(property: AuctionProperty): boolean {
+  return property.type === "building" || property.type === "building_part";
+}
+
+/**
+ * Offered area and GURS value per m² of the properties (parcels or buildings)
+ * The GURS value per m² is based on the full area when the value was not reduced by ownership share
+ */
+function getAreaMetrics(
+  properties: AuctionProperty[],
+  auction: RatioAuction
+): { area: number | null; gursValuePerM2: number | null } {
+  let area = 0;
+  let valuedArea = 0;
+  let value = 0;
+  for (const prop of properties) {
+    const propertyArea = getPropertyArea(prop);
+    if (!propertyArea) {
+      continue;
+    }
+    const factor = getOwnershipFactor(prop.ownershipShare ?? auction.ownershipShare);
+    area += propertyArea * factor;
+    if (prop.valuation?.value > 0) {
+      value += prop.valuation.value;
+      valuedArea += prop.valuation.reducedByOwnershipShare ? propertyArea * factor : propertyArea;
+    }
+  }
+
+  return {
+    area: area > 0 ? Math.round(area * 100) / 100 : null,
+    gursValuePerM2: valuedArea > 0 ? Math.round(value / valuedArea) : null,
+  };
+}
+
+/**
+ * Calculate price to value ratio (Relativna cena) as discount percentage and the unit metrics
+ * @param auction - Auction with price, estimated value and ownership share
+ * @param properties - Properties with valuations and comparables
+ */
+function calculate(auction: RatioAuction, properties: AuctionProperty[] | null): PriceToValueRatio {
+  const price = auction.price;
+  const estimatedValue = auction.estimatedValue;
+
+  // Calculate discount from estimated value (higher = better deal)
+  let toEstimatedValue: number | null = null;
+  if (price !== null && estimatedValue !== null && estimatedValue > 0) {
+    toEstimatedValue = Math.round(((estimatedValue - price) / estimatedValue) * 100);
+  }
+
+  // Calculate discount from the property valuations without overlapping values
+  let toPropertyValuations: number | null = null;
+  let totalPropertyValuation: number | null = null;
+  let valuationsReducedByOwnershipShare = false;
+  const { total, components } = ValuationAggregationService.aggregate(properties, auction);
+  if (price !== null && properties && properties.length > 0) {
+    if (total > 0) {
+      totalPropertyValuation = total;
+      toPropertyValuations = Math.round(((total - price) / total) * 100);
+    }
+    // Check if any valuation was reduced by ownership share
+    valuationsReducedByOwnershipShare = properties.some(
+      (prop) => prop.valuation?.reducedByOwnershipShare === true
+    );
+  }
+
+  // Calculate discount from the value by comparable sales, skipping the properties whose
+  // valuation overlaps with another property (e.g. land under a building part)
+  let toComparables: number | null = null;
+  let totalComparablesValue: number | null = null;
+  if (price !== null && properties && properties.length > 0) {
+    const totalValue = properties
+      .filter((_, index) => components[index].included || !components[index].value)
+      .reduce(
+        (sum, prop) =>
+          sum +
+          (ComparablesService.getComparablesValue(
+            prop,
+            prop.ownershipShare ?? auction.ownershipShare
+          ) ?? 0),
+        0
+      );
+    if (totalValue > 0) {
+      totalComparablesValue = totalValue;
+      toComparables = Math.round(((totalValue - price) / totalValue) * 100);
+    }
+  }
+
+  // Unit metrics - land and buildings separately, the price per m² of the floor area if any
+  // Duplicate valuations are not counted twice
+  const unique = (properties ?? []).filter((_, index) => components[index].reason !== "duplicate");
+  const land = getAreaMetrics(
+    unique.filter((prop) => !isBuilding(prop)),
+    auction
+  );
+  const building = getAreaMetrics(unique.filter(isBuilding), auction);
+  const pricedArea = building.area ?? land.area;
+
+  return {
+    toEstimatedValue,
+    toPropertyValuations,
+    totalPropertyValuation,
+    valuationsReducedByOwnershipShare,
+    valuationComponents: components,
+    toComparables,
+    totalComparablesValue,
+    landArea: land.area,
+    buildingArea: building.area,
+    pricePerM2: price > 0 && pricedArea ? Math.round(price / pricedArea) : null,
+    gursLandValuePerM2: land.gursValuePerM2,
+    gursBuildingValuePerM2: building.gursValuePerM2,
+  };
+}
+
+export const PriceRatioService = {
+  calculate,
+};
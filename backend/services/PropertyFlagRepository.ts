@@ -0,0 +1,202 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  BatchWriteCommand,
+  PutCommand,
+  QueryCommand,
+  paginateQuery,
+  paginateScan,
+} from "@aws-sdk/lib-dynamodb";
+import { PropertyFlag } from "../types/PropertyFlag.js";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.PROPERTY_FLAG_TABLE_NAME || "PropertyFlagTable";
+const PROPERTY_KEY_GSI_NAME = "propertyKey";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * User's flag on a property, with the offering it was last seen in
+ */
+export type PropertyFlagRecord = {
+  userId: string;
+  /** Sort key (and "propertyKey" GSI partition key): property ID, see generatePropertyId */
+  propertyKey: string;
+  flag: PropertyFlag;
+  /** Auction the property was last seen in - new offerings are compared with it */
+  auctionId: string;
+  price: number | null;
+  /** Auction type, e.g. namera-o-prodaji */
+  auctionType: string;
+  url: string | null;
+  flaggedAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Save flags (one record per property)
+ * @param records - Flag records of the user
+ */
+async function save(records: PropertyFlagRecord[]): Promise<void> {
+  logger.log("Saving property flags", {
+    userId: records[0]?.userId,
+    propertyKeys: records.map((record) => record.propertyKey),
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE || records.length === 0) {
+    return;
+  }
+
+  // Batch write (DynamoDB allows up to 25 items per batch)
+  for (let i = 0; i < records.length; i += 25) {
+    await docClient.send(
+      new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: records.slice(i, i + 25).map((record) => ({
+            PutRequest: {
+              Item: record,
+            },
+          })),
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Remove the user's flags on the properties
+ * @param userId - The user ID
+ * @param propertyKeys - Property keys (property IDs, see generatePropertyId)
+ */
+async function remove(userId: string, propertyKeys: string[]): Promise<void> {
+  logger.log("Removing property flags", { userId, propertyKeys, localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE || propertyKeys.length === 0) {
+    return;
+  }
+
+  for (let i = 0; i < propertyKeys.length; i += 25) {
+    await docClient.send(
+      new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: propertyKeys.slice(i, i + 25).map((propertyKey) => ({
+            DeleteRequest: {
+              Key: { userId, propertyKey },
+            },
+          })),
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Get all flags of the user
+ * @param userId - The user ID
+ */
+async function getByUserId(userId: string): Promise<PropertyFlagRecord[]> {
+  if (LOCAL_STORAGE) {
+    return [];
+  }
+
+  const records: PropertyFlagRecord[] = [];
+  const paginator = paginateQuery(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      KeyConditionExpression: "userId = :userId",
+      ExpressionAttributeValues: {
+        ":userId": userId,
+      },
+    }
+  );
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      records.push(...(page.Items as PropertyFlagRecord[]));
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Get the flags of all users on the property
+ * @param propertyKey - Property key (property ID, see generatePropertyId)
+ */
+async function getByPropertyKey(propertyKey: string): Promise<PropertyFlagRecord[]> {
+  if (LOCAL_STORAGE) {
+    return [];
+  }
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: PROPERTY_KEY_GSI_NAME,
+      KeyConditionExpression: "propertyKey = :propertyKey",
+      ExpressionAttributeValues: {
+        ":propertyKey": propertyKey,
+      },
+    })
+  );
+
+  return (result.Items as PropertyFlagRecord[]) ?? [];
+}
+
+/**
+ * Move the flag to a newer offering of the property (keeps the flag and flaggedAt)
+ * @param record - The updated flag record
+ */
+async function update(record: PropertyFlagRecord): Promise<void> {
+  logger.log("Updating property flag", {
+    userId: record.userId,
+    propertyKey: record.propertyKey,
+    auctionId: record.auctionId,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: record,
+    })
+  );
+}
+
+/**
+ * Get the flags of all users (used by migrations)
+ */
+async function getAll(): Promise<PropertyFlagRecord[]> {
+  if (LOCAL_STORAGE) {
+    return [];
+  }
+
+  const records: PropertyFlagRecord[] = [];
+  const paginator = paginateScan({ client: docClient }, { TableName: TABLE_NAME });
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      records.push(...(page.Items as PropertyFlagRecord[]));
+    }
+  }
+
+  return records;
+}
+
+export const PropertyFlagRepository = {
+  save,
+  remove,
+  getByUserId,
+  getByPropertyKey,
+  getAll,
+  update,
+};
@@ -0,0 +1,183 @@
+import { Auction } from "../types/Auction.js";
+import { PriceDrop, PropertyFlag } from "../types/PropertyFlag.js";
+import { generatePropertyId } from "../utils/generatePropertyId.js";
+import { logger } from "../utils/logger.js";
+import { NotificationService } from "./NotificationService.js";
+import { PropertyFlagRecord, PropertyFlagRepository } from "./PropertyFlagRepository.js";
+import { UserProfileRepository } from "./UserProfileRepository.js";
+
+/** Announcement types that are only an intent to sell, not an actual sale */
+const INTENT_TYPES = ["namera-o-prodaji", "namera"];
+
+/**
+ * Property keys of the auction (property IDs, as in PROPERTY records)
+ */
+function getPropertyKeys(auction: Pick<Auction, "properties">): string[] {
+  return Array.from(new Set((auction.properties ?? []).map((p) => generatePropertyId(p))));
+}
+
+/**
+ * Flag all properties of the auction for the user
+ * @param userId - The user ID
+ * @param auction - The auction the user flags
+ * @param flag - interesting or rejected
+ * @returns The saved flag records (empty if the auction has no properties)
+ */
+async function flagAuction(
+  userId: string,
+  auction: Auction,
+  flag: PropertyFlag
+): Promise<PropertyFlagRecord[]> {
+  const now = new Date().toISOString();
+  const records: PropertyFlagRecord[] = getPropertyKeys(auction).map((propertyKey) => ({
+    userId,
+    propertyKey,
+    flag,
+    auctionId: auction.auctionId,
+    price: auction.price,
+    auctionType: auction.type,
+    url: auction.urlSources[0] ?? null,
+    flaggedAt: now,
+    updatedAt: now,
+  }));
+
+  await PropertyFlagRepository.save(records);
+  return records;
+}
+
+/**
+ * Remove the user's flags on all properties of the auction
+ */
+async function unflagAuction(userId: string, auction: Auction): Promise<void> {
+  await PropertyFlagRepository.remove(userId, getPropertyKeys(auction));
+}
+
+/**
+ * Filter for the user's feeds and lists that hides auctions whose properties the user all rejected
+ * A rejected property that comes back cheaper is still alerted (see checkFlaggedProperties)
+ * @param userId - The user ID
+ * @returns Filter that is false for rejected auctions
+ */
+async function getNotRejectedFilter(userId: string): Promise<(auction: Auction) => boolean> {
+  const rejected = new Set(
+    (await PropertyFlagRepository.getByUserId(userId))
+      .filter((record) => record.flag === "rejected")
+      .map((record) => record.propertyKey)
+  );
+
+  return (auction) => {
+    const propertyKeys = getPropertyKeys(auction);
+    return propertyKeys.length === 0 || propertyKeys.some((key) => !rejected.has(key));
+  };
+}
+
+/**
+ * Compare the new auction with the offering the property was flagged in
+ * @returns null if the new auction is neither cheaper nor an actual sale of an intent to sell
+ */
+function comparePrice(
+  record: PropertyFlagRecord,
+  auction: Auction,
+  propertyKeys: string[]
+): PriceDrop | null {
+  const becameAuction =
+    INTENT_TYPES.includes(record.auctionType) && !INTENT_TYPES.includes(auction.type);
+  const hasPrices = record.price != null && auction.price != null;
+  const cheaper = hasPrices && auction.price < record.price;
+
+  if (!cheaper && !becameAuction) {
+    return null;
+  }
+
+  return {
+    flag: record.flag,
+    propertyKeys,
+    previousAuctionId: record.auctionId,
+    previousUrl: record.url,
+    previousPrice: record.price,
+    previousType: record.auctionType,
+    priceDelta: hasPrices ? auction.price - record.price : null,
+    changePercent:
+      hasPrices && record.price > 0
+        ? Math.round(((auction.price - record.price) / record.price) * 100)
+        : null,
+    becameAuction,
+  };
+}
+
+/**
+ * Alert the users who flagged any of the auction's properties when the auction is cheaper than
+ * the offering they flagged, or an actual sale of a property that was only an intent to sell
+ * After the alert the flags follow the new offering, so the next alert compares with it
+ * @param auction - The new auction
+ * @returns Number of alerted users
+ */
+async function checkFlaggedProperties(auction: Auction): Promise<number> {
+  const { auctionId } = auction;
+
+  // Flags of other offerings, grouped by user
+  const flagsByUser = new Map<string, PropertyFlagRecord[]>();
+  for (const propertyKey of getPropertyKeys(auction)) {
+    for (const record of await PropertyFlagRepository.getByPropertyKey(propertyKey)) {
+      if (record.auctionId === auctionId) {
+        continue;
+      }
+      flagsByUser.set(record.userId, [...(flagsByUser.get(record.userId) ?? []), record]);
+    }
+  }
+
+  let alerted = 0;
+  for (const [userId, records] of flagsByUser) {
+    // Compare with the most recently seen offering
+    const latest = records.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a));
+    const priceDrop = comparePrice(
+      latest,
+      auction,
+      records.map((record) => record.propertyKey)
+    );
+    if (!priceDrop) {
+      logger.log("Flagged property reappeared without a price drop", {
+        userId,
+        auctionId,
+        previousAuctionId: latest.auctionId,
+      });
+      continue;
+    }
+
+    const profile = await UserProfileRepository.getById(userId);
+    if (!profile) {
+      continue;
+    }
+
+    try {
+      await NotificationService.sendPriceDrop(profile, auction, priceDrop);
+      alerted++;
+    } catch (error) {
+      // Flags are not moved, so the alert is repeated if the auction is analyzed again
+      logger.warn("Failed to send price drop alert", error, { userId, auctionId });
+      continue;
+    }
+
+    const now = new Date().toISOString();
+    for (const record of records) {
+      await PropertyFlagRepository.update({
+        ...record,
+        auctionId,
+        price: auction.price,
+        auctionType: auction.type,
+        url: auction.urlSources[0] ?? null,
+        updatedAt: now,
+      });
+    }
+  }
+
+  return alerted;
+}
+
+export const PropertyFlagService = {
+  getPropertyKeys,
+  flagAuction,
+  unflagAuction,
+  getNotRejectedFilter,
+  checkFlaggedProperties,
+};
@@ -0,0 +1,101 @@
+import { PropertyHistory, PropertyHistoryEntry } from "../types/PropertyHistory.js";
+import { PropertyKey } from "../types/PropertyIdentifier.js";
+import { logger } from "../utils/logger.js";
+import { normalizePropertyNumber } from "../utils/normalizePropertyNumber.js";
+import { AuctionRepository } from "./AuctionRepository.js";
+import { CadastralMunicipalityService } from "./CadastralMunicipalityService.js";
+import { LotHistoryRepository } from "./LotHistoryRepository.js";
+import { LotHistoryService } from "./LotHistoryService.js";
+
+function getEntryDate(entry: PropertyHistoryEntry): string {
+  return entry.dueDate ?? entry.publicationDate ?? entry.recordedAt;
+}
+
+/**
+ * Full history of a parcel or building part - every auction that involved it, with the price
+ * and the GURS valuation at the time
+ * Auction records are found through the "property" GSI, offerings whose auction records have
+ * already expired are added from the lot history (without the valuation)
+ * The identifier is normalized like extracted properties ("536-6" is 536/6, a KO name is
+ * resolved to its code), so it matches the stored property IDs
+ * @param input - The property identifier (type, cadastralMunicipality, number) as given
+ */
+async function getHistory(input: PropertyKey): Promise<PropertyHistory> {
+  const cadastralMunicipality = CadastralMunicipalityService.normalizeCode(
+    input.cadastralMunicipality
+  );
+  const number =
+    normalizePropertyNumber({ ...input, cadastralMunicipality }) ?? input.number.trim();
+  const propertyKey = { type: input.type, cadastralMunicipality, number };
+
+  const entries = new Map<string, PropertyHistoryEntry>();
+  for (const record of await AuctionRepository.getPropertyRecords(propertyKey)) {
+    if (entries.has(record.auctionId)) {
+      continue;
+    }
+    const main = await AuctionRepository.getMainRecord(record.auctionId);
+    if (!main) {
+      continue;
+    }
+    entries.set(record.auctionId, {
+      auctionId: record.auctionId,
+      dataSourceCode: main.dataSourceCode,
+      title: main.aiTitle || main.title,
+      type: main.type,
+      urlSources: main.urlSources,
+      price: main.price,
+      estimatedValue: main.estimatedValue,
+      dueDate: main.dueDate,
+      publicationDate: main.publicationDate,
+      duplicateOf: main.duplicateOf ?? null,
+      area: record.area,
+      ownershipShare: record.ownershipShare,
+      valuation: record.valuation ?? null,
+      recordedAt: record.createdAt,
+    });
+  }
+
+  const matchKey = LotHistoryService.getPropertyMatchKey(propertyKey);
+  for (const record of await LotHistoryRepository.getByMatchKeys([matchKey])) {
+    if (entries.has(record.auctionId)) {
+      continue;
+    }
+    entries.set(record.auctionId, {
+      auctionId: record.auctionId,
+      dataSourceCode: record.dataSourceCode,
+      title: null,
+      type: null,
+      urlSources: record.url ? [record.url] : [],
+      price: record.price,
+      estimatedValue: null,
+      dueDate: record.dueDate,
+      publicationDate: record.publicationDate,
+      duplicateOf: null,
+      area: null,
+      ownershipShare: null,
+      valuation: null,
+      recordedAt: record.recordedAt,
+    });
+  }
+
+  const history: PropertyHistory = {
+    type: input.type,
+    cadastralMunicipality,
+    number,
+    entries: Array.from(entries.values()).sort((a, b) =>
+      getEntryDate(b).localeCompare(getEntryDate(a))
+    ),
+  };
+
+  logger.log("Property history fetched", {
+    cadastralMunicipality,
+    number,
+    count: history.entries.length,
+  });
+
+  return history;
+}
+
+export const PropertyHistoryService = {
+  getHistory,
+};
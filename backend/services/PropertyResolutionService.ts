@@ -0,0 +1,148 @@
+import { PropertyResolution } from "../types/PropertyResolution.js";
+
+/** Number of candidates listed for an ambiguous property */
+const MAX_CANDIDATES = 5;
+
+/**
+ * Search result of the GURS parcel or building part search
+ */
+export type ResolutionCandidate<T> = {
+  /** Cadastral municipality code of the candidate (null if not in the response) */
+  cadastralMunicipality: string | null;
+  /** Parcel or building part number of the candidate (null if not in the response) */
+  number: string | null;
+  item: T;
+};
+
+/**
+ * Normalize a number for the exact match - whitespace and case differ
+ * The leading asterisk is kept, "*15" (building land) and "15" are different parcels in the same
+ * cadastral municipality
+ */
+function normalizeExact(number: string): string {
+  return number.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Normalize a number for the fuzzy match - only digits and slashes, without leading zeros
+ * e.g. "0372/06" and "372-6" both become "372/6"
+ */
+function normalizeFuzzy(number: string): string {
+  return number
+    .replace(/[-.]/g, "/")
+    .replace(/[^0-9/]/g, "")
+    .split("/")
+    .filter((part) => part.length > 0)
+    .map((part) => part.replace(/^0+(?=\d)/, ""))
+    .join("/");
+}
+
+/**
+ * Score of the candidate: 2 = exact match, 1 = fuzzy match, 0 = no match
+ * Candidates from another cadastral municipality never match
+ */
+function score<T>(
+  candidate: ResolutionCandidate<T>,
+  cadastralMunicipality: string,
+  number: string
+): number {
+  if (
+    candidate.cadastralMunicipality != null &&
+    candidate.cadastralMunicipality.trim() !== cadastralMunicipality.trim()
+  ) {
+    return 0;
+  }
+  if (candidate.number == null) {
+    return 0;
+  }
+  if (normalizeExact(candidate.number) === normalizeExact(number)) {
+    return 2;
+  }
+  return normalizeFuzzy(candidate.number) === normalizeFuzzy(number) ? 1 : 0;
+}
+
+/**
+ * Pick the search result that matches the property
+ * Only a single best match is accepted, a candidate with a different number is never bound to
+ * the property (it is listed as a possible candidate instead)
+ * @param cadastralMunicipality - Cadastral municipality of the property
+ * @param number - Parcel or building part number of the property
+ * @param candidates - Search results
+ * @returns The matched item (null if ambiguous or not found) and the resolution
+ */
+function resolve<T>(
+  cadastralMunicipality: string,
+  number: string,
+  candidates: ResolutionCandidate<T>[]
+): { item: T | null; resolution: PropertyResolution } {
+  if (candidates.length === 0) {
+    return { item: null, resolution: { status: "not_found" } };
+  }
+
+  const scored = candidates
+    .map((candidate) => ({ candidate, score: score(candidate, cadastralMunicipality, number) }))
+    .sort((a, b) => b.score - a.score);
+  const best = scored[0];
+  const tied = scored.filter((entry) => entry.score === best.score);
+
+  if (best.score > 0 && tied.length === 1) {
+    return {
+      item: best.candidate.item,
+      resolution: {
+        status: best.score === 2 ? "exact" : "fuzzy",
+        matchedNumber: best.candidate.number,
+      },
+    };
+  }
+
+  // Single candidate without a number in the response, the search itself matched it
+  if (
+    candidates.length === 1 &&
+    best.candidate.number == null &&
+    (best.candidate.cadastralMunicipality == null ||
+      best.candidate.cadastralMunicipality.trim() === cadastralMunicipality.trim())
+  ) {
+    return { item: best.candidate.item, resolution: { status: "fuzzy" } };
+  }
+
+  return {
+    item: null,
+    resolution: {
+      status: "ambiguous",
+      candidates: tied
+        .slice(0, MAX_CANDIDATES)
+        .map((entry) => entry.candidate.number)
+        .filter((candidate) => candidate != null),
+    },
+  };
+}
+
+/**
+ * Warning about a property that could not be matched to a single GURS record
+ * @returns null if the property was matched
+ */
+function formatWarning(
+  property: { cadastralMunicipality: string; number: string },
+  resolution: PropertyResolution | undefined
+): string | null {
+  const propertyId = `${property.cadastralMunicipality}-${property.number}`;
+  switch (resolution?.status) {
+    case "ambiguous": {
+      const candidates = resolution.candidates?.length
+        ? ` (možne: ${resolution.candidates.join(", ")})`
+        : "";
+      return `Nepremičnine ${propertyId} ni mogoče enolično določiti v evidenci GURS${candidates}, vrednotenje ni upoštevano`;
+    }
+    case "unnormalized":
+      return `Številke nepremičnine ${propertyId} ni mogoče prebrati, vrednotenje ni upoštevano`;
+    case "fuzzy":
+      return `Nepremičnina ${propertyId} je v evidenci GURS najdena kot ${resolution.matchedNumber ?? "približno ujemanje"}, preveri številko`;
+    default:
+      return null;
+  }
+}
+
+export const PropertyResolutionService = {
+  resolve,
+  formatWarning,
+};
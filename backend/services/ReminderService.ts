@@ -0,0 +1,112 @@
+import { Auction } from "../types/Auction.js";
+import { Reminder, ReminderKind } from "../types/Reminder.js";
+import { UserProfile } from "../types/UserProfile.js";
+import { logger } from "../utils/logger.js";
+import { AuctionRepository } from "./AuctionRepository.js";
+import { NotificationService } from "./NotificationService.js";
+import { WatchlistRepository } from "./WatchlistRepository.js";
+
+const DEFAULT_REMINDER_OFFSETS_DAYS = [7, 2, 0];
+const TIME_ZONE = "Europe/Ljubljana";
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar date (YYYY-MM-DD) in Slovenia
+ */
+function toLocalDay(date: Date): string {
+  return date.toLocaleDateString("sv-SE", { timeZone: TIME_ZONE });
+}
+
+/**
+ * Calendar days from now until the date (0 = today, negative = in the past)
+ * Date-only values (e.g. "2025-03-14") are taken as the day itself
+ */
+function getDaysLeft(date: string, now: Date): number | null {
+  const timestamp = Date.parse(date);
+  if (isNaN(timestamp)) {
+    return null;
+  }
+  const day = /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toLocalDay(new Date(timestamp));
+  return Math.round((Date.parse(day) - Date.parse(toLocalDay(now))) / ONE_DAY_MS);
+}
+
+/**
+ * Reminders that are due now for the auction's deadline and viewings
+ * For each date, the smallest configured offset that was reached is used, so a reminder
+ * missed earlier (e.g. auction watched only 3 days before) is not sent in addition to a later one
+ * @param auction - The watched auction
+ * @param offsetsDays - Days before the date to remind at (0 = on the day)
+ * @param now - Current time
+ */
+function getDueReminders(auction: Auction, offsetsDays: number[], now: Date): Reminder[] {
+  const dates: { kind: ReminderKind; date: string }[] = [
+    ...(auction.dueDate ? [{ kind: "due" as const, date: auction.dueDate }] : []),
+    ...(auction.viewingDates ?? []).map((date) => ({ kind: "viewing" as const, date })),
+  ];
+
+  const reminders: Reminder[] = [];
+  for (const { kind, date } of dates) {
+    const daysLeft = getDaysLeft(date, now);
+    if (daysLeft === null || daysLeft < 0) {
+      continue;
+    }
+    const reached = offsetsDays.filter((offset) => offset >= daysLeft);
+    if (reached.length === 0) {
+      continue;
+    }
+    reminders.push({ kind, date, offsetDays: Math.min(...reached), daysLeft });
+  }
+  return reminders;
+}
+
+/**
+ * Send the due reminders for all auctions on the user's watchlist
+ * Auctions that no longer exist (deleted after dueDate) are removed from the watchlist
+ * Throws after all reminders were tried if any of them failed
+ * @param profile - The user
+ * @param now - Current time
+ * @returns Number of reminders sent
+ */
+async function sendReminders(profile: UserProfile, now: Date = new Date()): Promise<number> {
+  const { userId } = profile;
+  const offsetsDays = profile.reminderOffsetsDays ?? DEFAULT_REMINDER_OFFSETS_DAYS;
+  const watchlist = await WatchlistRepository.getByUserId(userId);
+
+  let sent = 0;
+  let failed = 0;
+  for (const { auctionId } of watchlist) {
+    const auction = await AuctionRepository.getById(auctionId, userId);
+    if (!auction) {
+      logger.log("Watched auction no longer exists, removing from watchlist", {
+        userId,
+        auctionId,
+      });
+      await WatchlistRepository.remove(userId, auctionId);
+      continue;
+    }
+
+    for (const reminder of getDueReminders(auction, offsetsDays, now)) {
+      try {
+        await NotificationService.sendReminder(profile, auction, reminder);
+        sent++;
+      } catch (error) {
+        // Continue with the other reminders, the failed one is retried on the next run
+        failed++;
+        logger.warn("Failed to send reminder", error, { userId, auctionId, reminder });
+      }
+    }
+  }
+
+  logger.log("Reminders completed", { userId, watchedCount: watchlist.length, sent, failed });
+
+  if (failed > 0) {
+    throw new Error(`Failed to send ${failed} reminders`);
+  }
+
+  return sent;
+}
+
+export const ReminderService = {
+  getDueReminders,
+  sendReminders,
+};
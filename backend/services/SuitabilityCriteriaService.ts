@@ -0,0 +1,307 @@
+import {
+  SuitabilityCondition,
+  SuitabilityCriteria,
+  SuitabilityField,
+  SuitabilityOperator,
+  SuitabilityRule,
+  SuitabilityWeights,
+} from "../types/SuitabilityCriteria.js";
+import { PreferredPropertyType, UserProfile } from "../types/UserProfile.js";
+
+/**
+ * Driving time cutoff used when analyzing without a user profile
+ */
+const DEFAULT_MAX_DRIVING_TIME_MINUTES = 110;
+
+/**
+ * Default criteria, used when the user profile does not define its own
+ */
+const DEFAULT_SUITABILITY_CRITERIA: SuitabilityCriteria = {
+  weights: {
+    distance: 3,
+    price: 1,
+    vacancy: 2,
+    parcelArea: 2,
+    saleType: 1,
+  },
+  mustHave: [],
+  dealBreakers: [
+    {
+      conditions: [
+        {
+          field: "propertyKind",
+          operator: "in",
+          value: ["building-parcel", "agricultural-parcel", "forest"],
+        },
+        { field: "parcelAreaM2", operator: "lt", value: 400 },
+      ],
+      description: "Parcele pod 400 m²",
+    },
+    {
+      conditions: [{ field: "ownershipSharePercent", operator: "lt", value: 100 }],
+      description: "Solastniški delež manjši od 100%",
+    },
+  ],
+  bonuses: [
+    {
+      conditions: [
+        { field: "isBuildableParcel", operator: "eq", value: true },
+        { field: "parcelAreaM2", operator: "gte", value: 500 },
+      ],
+      description: "Zazidljiva parcela nad 500 m²",
+      points: 2,
+    },
+    {
+      conditions: [{ field: "isVacant", operator: "eq", value: "YES" }],
+      description: "Stanovanje/hiša je prazna (Prazno: Da)",
+      points: 2,
+    },
+    {
+      conditions: [{ field: "drivingTimeMinutes", operator: "lte", value: 60 }],
+      description: "Bližina (kratka vožnja)",
+      points: 2,
+    },
+    {
+      conditions: [{ field: "discountPercent", operator: "gte", value: 25 }],
+      description:
+        'Ugodna cena (negativen % pri "Relativna cena" = dobro). -25% je srednje ugodno.',
+      points: 1,
+    },
+    {
+      conditions: [
+        {
+          field: "type",
+          operator: "in",
+          value: ["zavezujoce-javno-zbiranje-ponudb", "nezavezujoce-javno-zbiranje-ponudb"],
+        },
+      ],
+      description: "Zavezujoče ali nezavezujoče javno zbiranje ponudb",
+      points: 1,
+    },
+    {
+      conditions: [{ field: "type", operator: "eq", value: "klasicna-prodaja" }],
+      description: "Klasična prodaja",
+      points: 1,
+    },
+  ],
+  topMatches: [
+    {
+      conditions: [{ field: "isVacant", operator: "eq", value: "YES" }],
+      description: "Stanovanje/hiša je prazna (Prazno: Da)",
+    },
+    {
+      conditions: [
+        { field: "type", operator: "eq", value: "klasicna-prodaja" },
+        { field: "drivingTimeMinutes", operator: "lte", value: 60 },
+      ],
+    },
+    {
+      conditions: [
+        {
+          field: "type",
+          operator: "in",
+          value: ["zavezujoce-javno-zbiranje-ponudb", "nezavezujoce-javno-zbiranje-ponudb"],
+        },
+        { field: "drivingTimeMinutes", operator: "lte", value: 60 },
+      ],
+    },
+    {
+      conditions: [
+        { field: "type", operator: "in", value: ["namera-o-prodaji", "namera"] },
+        { field: "drivingTimeMinutes", operator: "lte", value: 60 },
+      ],
+    },
+  ],
+  notes: [
+    "Iščem ustrezno dražbo ne glede na to kaj se prodaja.",
+    "POZOR: Če je cena očitno previsoka ali podatki nesmiselni, ignoriraj ceno. Cena ni najpomembnejši faktor.",
+  ],
+};
+
+const FIELD_LABELS: Record<SuitabilityField, string> = {
+  drivingTimeMinutes: "Vožnja od doma (min)",
+  parcelAreaM2: "Površina parcel (m²)",
+  ownershipSharePercent: "Delež lastništva (%)",
+  price: "Cena (€)",
+  discountPercent: "Popust glede na vrednost (%)",
+  type: "Tip",
+  isVacant: "Prazno",
+  isBuildableParcel: "Zazidljiva parcela",
+  propertyKind: "Vrsta nepremičnine",
+};
+
+const OPERATOR_LABELS: Record<SuitabilityOperator, string> = {
+  lt: "<",
+  lte: "≤",
+  gt: ">",
+  gte: "≥",
+  eq: "=",
+  in: "je eno od",
+};
+
+const WEIGHT_LABELS: Record<keyof SuitabilityWeights, string> = {
+  distance: "bližina",
+  price: "cena",
+  vacancy: "praznost",
+  parcelArea: "površina parcele",
+  saleType: "način prodaje",
+};
+
+const PROPERTY_KIND_LABELS: Record<PreferredPropertyType, string> = {
+  apartment: "stanovanje",
+  house: "hiša",
+  "building-parcel": "zazidljiva parcela",
+  "agricultural-parcel": "kmetijsko zemljišče",
+  forest: "gozd",
+  commercial: "poslovni prostor",
+  other: "drugo",
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  "javna-drazba": "Javna dražba",
+  "klasicna-prodaja": "Klasična prodaja",
+  oddaja: "Oddaja",
+  "zavezujoce-javno-zbiranje-ponudb": "Zavezujoče javno zbiranje ponudb",
+  "nezavezujoce-javno-zbiranje-ponudb": "Nezavezujoče javno zbiranje ponudb",
+  "namera-o-prodaji": "Namera o prodaji",
+  namera: "Namera (neposredna pogodba)",
+  "elektronska-drazba": "Elektronska dražba",
+  "elektronska-javna-drazba": "Elektronska javna dražba",
+  drugo: "Drugo",
+};
+
+const VACANT_LABELS: Record<string, string> = {
+  YES: "Da",
+  NO: "Ne",
+  UNKNOWN: "Neznano",
+};
+
+/**
+ * Format a single condition value for the prompt
+ */
+function formatValue(field: SuitabilityField, value: SuitabilityCondition["value"]): string {
+  if (Array.isArray(value)) {
+    return value.map((v) => formatValue(field, v)).join(", ");
+  }
+  if (typeof value === "boolean") {
+    return value ? "Da" : "Ne";
+  }
+  if (typeof value === "number") {
+    return value.toLocaleString("sl-SI");
+  }
+  switch (field) {
+    case "type":
+      return TYPE_LABELS[value] ?? value;
+    case "isVacant":
+      return VACANT_LABELS[value] ?? value;
+    case "propertyKind":
+      return PROPERTY_KIND_LABELS[value as PreferredPropertyType] ?? value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Format a rule as a single line, e.g. "Tip = Klasična prodaja in Vožnja od doma (min) ≤ 60"
+ */
+function formatRule(rule: SuitabilityRule): string {
+  if (rule.description) {
+    return rule.description;
+  }
+  return rule.conditions
+    .map(
+      (c) =>
+        `${FIELD_LABELS[c.field]} ${OPERATOR_LABELS[c.operator]} ${formatValue(c.field, c.value)}`
+    )
+    .join(" in ");
+}
+
+/**
+ * Get the effective criteria for a user
+ * Starts from the user's own criteria (or defaults) and adds rules derived from the profile:
+ * max driving time and budget become deal-breakers, preferred property types a bonus
+ * Without a profile, the default criteria with a 110 minute driving cutoff are used
+ * @param profile - The user profile
+ */
+function getCriteria(profile?: UserProfile): SuitabilityCriteria {
+  const base = profile?.criteria ?? DEFAULT_SUITABILITY_CRITERIA;
+  const criteria: SuitabilityCriteria = {
+    ...base,
+    dealBreakers: [...base.dealBreakers],
+    bonuses: [...base.bonuses],
+  };
+
+  const maxDrivingTimeMinutes = profile
+    ? profile.maxDrivingTimeMinutes
+    : DEFAULT_MAX_DRIVING_TIME_MINUTES;
+  if (maxDrivingTimeMinutes != null) {
+    criteria.dealBreakers.push({
+      conditions: [{ field: "drivingTimeMinutes", operator: "gt", value: maxDrivingTimeMinutes }],
+      description: `Razdalja nad ${maxDrivingTimeMinutes} minut vožnje`,
+    });
+  }
+
+  if (profile?.budget != null) {
+    criteria.dealBreakers.push({
+      conditions: [{ field: "price", operator: "gt", value: profile.budget }],
+      description: `Cena nad ${profile.budget.toLocaleString("sl-SI")} €`,
+    });
+  }
+
+  if (profile?.preferredPropertyTypes?.length > 0) {
+    criteria.bonuses.push({
+      conditions: [
+        { field: "propertyKind", operator: "in", value: profile.preferredPropertyTypes },
+      ],
+      points: 1,
+    });
+  }
+
+  return criteria;
+}
+
+/**
+ * Render criteria into the "Kriteriji za ocenjevanje" section of the analysis prompt
+ */
+function formatCriteriaPrompt(criteria: SuitabilityCriteria): string {
+  const lines: string[] = [];
+  lines.push("**Kriteriji za ocenjevanje:**");
+  lines.push("");
+
+  for (const note of criteria.notes) {
+    lines.push(note);
+  }
+  if (criteria.notes.length > 0) lines.push("");
+
+  const weights = (Object.keys(criteria.weights) as (keyof SuitabilityWeights)[])
+    .map((key) => `${WEIGHT_LABELS[key]} ${criteria.weights[key]}`)
+    .join(", ");
+  lines.push(`Pomembnost dejavnikov (0 - 3): ${weights}`);
+  lines.push("");
+
+  const sections: Array<[string, SuitabilityRule[]]> = [
+    ["K VIŠJI oceni prispeva:", criteria.bonuses.filter((r) => (r.points ?? 1) >= 0)],
+    ["K NIŽJI oceni prispeva:", criteria.bonuses.filter((r) => (r.points ?? 1) < 0)],
+    ["Nujni pogoji (če kateri ni izpolnjen, podaj oceno 0):", criteria.mustHave],
+    ["Podaj ocena 0 (neprimerno) vedno kadar:", criteria.dealBreakers],
+    ["Podaj ocena 10 (zelo primerno) kadar:", criteria.topMatches],
+  ];
+
+  for (const [title, rules] of sections) {
+    if (rules.length === 0) continue;
+    lines.push(title);
+    for (const rule of rules) {
+      lines.push(`- ${formatRule(rule)}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+export const SuitabilityCriteriaService = {
+  DEFAULT_SUITABILITY_CRITERIA,
+  getCriteria,
+  formatRule,
+  formatCriteriaPrompt,
+};
@@ -0,0 +1,273 @@
+import { Auction, AuctionProperty } from "../types/Auction.js";
+import {
+  SuitabilityCondition,
+  SuitabilityCriteria,
+  SuitabilityField,
+  SuitabilityRule,
+} from "../types/SuitabilityCriteria.js";
+import {
+  SuitabilityRuleKind,
+  SuitabilityScore,
+  SuitabilityScoreRule,
+  UserSuitability,
+} from "../types/SuitabilityScore.js";
+import { PreferredPropertyType } from "../types/UserProfile.js";
+import { AuctionAnalysis } from "../types/AuctionAnalysis.js";
+import { SuitabilityCriteriaService } from "./SuitabilityCriteriaService.js";
+
+/** Score when no bonus rule fires */
+const BASE_SCORE = 2;
+const MAX_SCORE = 10;
+/** Minimum difference between AI score and rule score that is flagged */
+const DISAGREEMENT_THRESHOLD = 3;
+
+type FieldValue = number | string | boolean | string[] | null;
+
+/**
+ * Whether a parcel is buildable (stavbno zemljišče) based on extracted type or GURS intended use
+ */
+function isBuildable(property: AuctionProperty): boolean {
+  if (property.parcelType === "building") {
+    return true;
+  }
+  const intendedUse =
+    property.valuation && "intendedUse" in property.valuation
+      ? property.valuation.intendedUse
+      : undefined;
+  return /stavb/i.test(intendedUse ?? "");
+}
+
+/**
+ * Parcel kind based on extracted type, falling back to GURS intended use
+ */
+function getParcelKind(property: AuctionProperty): PreferredPropertyType {
+  if (isBuildable(property)) return "building-parcel";
+  if (property.parcelType === "agricultural") return "agricultural-parcel";
+  if (property.parcelType === "forest") return "forest";
+
+  const intendedUse =
+    property.valuation && "intendedUse" in property.valuation
+      ? property.valuation.intendedUse
+      : undefined;
+  if (/kmetij/i.test(intendedUse ?? "")) return "agricultural-parcel";
+  if (/gozd/i.test(intendedUse ?? "")) return "forest";
+  return "other";
+}
+
+/**
+ * Building kind based on extracted building type and GURS actual use
+ */
+function getBuildingKind(auction: Auction, property: AuctionProperty): PreferredPropertyType {
+  if (property.buildingType === "commercial") return "commercial";
+  if (property.buildingType === "industrial") return "other";
+
+  const actualUse =
+    property.valuation && "actualUse" in property.valuation ? property.valuation.actualUse : "";
+  if (property.type === "building_part" && /stanovanj/i.test(actualUse ?? "")) {
+    return "apartment";
+  }
+  if (property.type === "building" || auction.isHouse) return "house";
+  return property.buildingType === "residential" ? "apartment" : "other";
+}
+
+/**
+ * Property kinds of the auction
+ * Buildings take precedence, so the parcels under a house do not make it a parcel sale
+ */
+function getPropertyKinds(auction: Auction): PreferredPropertyType[] {
+  const properties = auction.properties ?? [];
+  const buildings = properties.filter((p) => p.type !== "parcel");
+  const kinds =
+    buildings.length > 0
+      ? buildings.map((p) => getBuildingKind(auction, p))
+      : properties.map(getParcelKind);
+  if (kinds.length === 0 && auction.isHouse) {
+    kinds.push("house");
+  }
+  return [...new Set(kinds)];
+}
+
+/**
+ * Extract the values rules are evaluated against (null = unknown)
+ */
+function getFieldValues(auction: Auction): Record<SuitabilityField, FieldValue> {
+  const parcels = (auction.properties ?? []).filter((p) => p.type === "parcel");
+  const parcelAreas = parcels
+    .map(
+      (p) =>
+        p.area ?? (p.valuation && "surfaceArea" in p.valuation ? p.valuation.surfaceArea : null)
+    )
+    .filter((area): area is number => area != null && area > 0);
+
+  const propertyShares = (auction.properties ?? [])
+    .map((p) => p.ownershipShare)
+    .filter((share): share is number => share != null);
+
+  // Same discounts as "Relativna cena", GURS based one only if the valuation makes sense
+  const { toEstimatedValue, toPropertyValuations, toComparables } = auction.priceToValueRatio ?? {};
+  const discounts = [
+    toEstimatedValue,
+    auction.aiGursValuationMakesSense === false ? null : toPropertyValuations,
+    toComparables,
+  ].filter((discount): discount is number => discount != null);
+
+  const propertyKinds = getPropertyKinds(auction);
+
+  return {
+    drivingTimeMinutes: auction.drivingInfo?.drivingTimeMinutes ?? null,
+    parcelAreaM2: parcelAreas.length > 0 ? parcelAreas.reduce((sum, a) => sum + a, 0) : null,
+    ownershipSharePercent:
+      auction.ownershipShare ?? (propertyShares.length > 0 ? Math.min(...propertyShares) : 100),
+    price: auction.price ?? null,
+    discountPercent: discounts.length > 0 ? Math.max(...discounts) : null,
+    type: auction.type ?? null,
+    isVacant: auction.isVacant ?? null,
+    isBuildableParcel: parcels.length > 0 ? parcels.some(isBuildable) : null,
+    propertyKind: propertyKinds.length > 0 ? propertyKinds : null,
+  };
+}
+
+/**
+ * Compare a single value against the condition
+ */
+function compare(actual: string | number | boolean, condition: SuitabilityCondition): boolean {
+  const expected = condition.value;
+  switch (condition.operator) {
+    case "eq":
+      return actual === expected;
+    case "in":
+      return Array.isArray(expected) && expected.includes(String(actual));
+    case "lt":
+      return typeof actual === "number" && typeof expected === "number" && actual < expected;
+    case "lte":
+      return typeof actual === "number" && typeof expected === "number" && actual <= expected;
+    case "gt":
+      return typeof actual === "number" && typeof expected === "number" && actual > expected;
+    case "gte":
+      return typeof actual === "number" && typeof expected === "number" && actual >= expected;
+  }
+}
+
+/**
+ * Evaluate a condition - multi-valued fields match if any value matches
+ * @returns null when the field value is unknown
+ */
+function evaluateCondition(
+  condition: SuitabilityCondition,
+  values: Record<SuitabilityField, FieldValue>
+): boolean | null {
+  const actual = values[condition.field];
+  if (actual == null) {
+    return null;
+  }
+  const candidates = Array.isArray(actual) ? actual : [actual];
+  return candidates.some((value) => compare(value, condition));
+}
+
+/**
+ * Evaluate a rule - true if all conditions match, false if any does not, null if unknown
+ */
+function evaluateRule(
+  rule: SuitabilityRule,
+  values: Record<SuitabilityField, FieldValue>
+): boolean | null {
+  const results = rule.conditions.map((condition) => evaluateCondition(condition, values));
+  if (results.some((result) => result === false)) return false;
+  if (results.some((result) => result === null)) return null;
+  return true;
+}
+
+function toScoreRule(kind: SuitabilityRuleKind, rule: SuitabilityRule): SuitabilityScoreRule {
+  return {
+    kind,
+    description: SuitabilityCriteriaService.formatRule(rule),
+    points: kind === "bonus" ? (rule.points ?? 1) : undefined,
+  };
+}
+
+/**
+ * Compute the deterministic 0 - 10 score
+ * - any deal-breaker or failed must-have: 0 (unknown values never trigger a 0)
+ * - any top match: 10
+ * - otherwise BASE_SCORE plus points of matching bonuses, clamped to 0 - 10
+ * @param auction - Auction with the user's driving info
+ * @param criteria - Effective criteria of the user (SuitabilityCriteriaService.getCriteria)
+ */
+function calculateScore(auction: Auction, criteria: SuitabilityCriteria): SuitabilityScore {
+  const values = getFieldValues(auction);
+
+  const failedMustHave = criteria.mustHave
+    .filter((rule) => evaluateRule(rule, values) === false)
+    .map((rule) => toScoreRule("mustHave", rule));
+  const dealBreakers = criteria.dealBreakers
+    .filter((rule) => evaluateRule(rule, values) === true)
+    .map((rule) => toScoreRule("dealBreaker", rule));
+
+  if (failedMustHave.length > 0 || dealBreakers.length > 0) {
+    return { score: 0, breakdown: [...failedMustHave, ...dealBreakers] };
+  }
+
+  const topMatches = criteria.topMatches
+    .filter((rule) => evaluateRule(rule, values) === true)
+    .map((rule) => toScoreRule("topMatch", rule));
+  const bonuses = criteria.bonuses
+    .filter((rule) => evaluateRule(rule, values) === true)
+    .map((rule) => toScoreRule("bonus", rule));
+
+  const breakdown = [...topMatches, ...bonuses];
+
+  if (topMatches.length > 0) {
+    return { score: MAX_SCORE, breakdown };
+  }
+
+  const points = bonuses.reduce((sum, rule) => sum + rule.points, 0);
+  const score = Math.min(MAX_SCORE, Math.max(0, Math.round(BASE_SCORE + points)));
+
+  return { score, breakdown };
+}
+
+/**
+ * Parse the numeric score from aiSuitability ("Ocena 7, stanovanje ...")
+ * Fallback for analyses without aiScore
+ * @returns null if the text does not start with a score
+ */
+function parseAiScore(aiSuitability: string | null | undefined): number | null {
+  const match = aiSuitability?.match(/^\s*Ocena\s+(\d+(?:[.,]\d+)?)/i);
+  if (!match) {
+    return null;
+  }
+  const score = parseFloat(match[1].replace(",", "."));
+  return Math.min(MAX_SCORE, Math.max(0, score));
+}
+
+/**
+ * Combine the AI assessment with the rule-based score and flag disagreements
+ * @param auction - Auction with the user's driving info and AI GURS assessment
+ * @param criteria - Effective criteria of the user
+ * @param analysis - AI-generated suitability assessment and score
+ */
+function assessSuitability(
+  auction: Auction,
+  criteria: SuitabilityCriteria,
+  analysis: Pick<AuctionAnalysis, "aiSuitability" | "aiScore">
+): UserSuitability {
+  const { score, breakdown } = calculateScore(auction, criteria);
+  const aiScore =
+    analysis.aiScore != null
+      ? Math.min(MAX_SCORE, Math.max(0, analysis.aiScore))
+      : parseAiScore(analysis.aiSuitability);
+
+  return {
+    aiSuitability: analysis.aiSuitability,
+    aiScore,
+    ruleScore: score,
+    ruleScoreBreakdown: breakdown,
+    scoreDisagreement: aiScore !== null && Math.abs(aiScore - score) >= DISAGREEMENT_THRESHOLD,
+  };
+}
+
+export const SuitabilityScoreService = {
+  calculateScore,
+  parseAiScore,
+  assessSuitability,
+};
@@ -0,0 +1,181 @@
+import { randomBytes } from "crypto";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+  paginateScan,
+} from "@aws-sdk/lib-dynamodb";
+import { logger } from "../utils/logger.js";
+import { UserProfile } from "../types/UserProfile.js";
+
+const TABLE_NAME = process.env.USER_PROFILE_TABLE_NAME || "UserProfileTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+const FEED_TOKEN_GSI_NAME = "feedToken";
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Generate an unguessable feed token (192 random bits)
+ */
+function generateFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Save (create or replace) a user profile
+ * Keeps the existing feed token, or generates one for new profiles
+ * @param profile - The user profile without timestamps
+ */
+async function save(profile: Omit<UserProfile, "createdAt" | "updatedAt">): Promise<void> {
+  const now = new Date().toISOString();
+  const existing = await getById(profile.userId);
+
+  const record: UserProfile = {
+    ...profile,
+    feedToken: profile.feedToken ?? existing?.feedToken ?? generateFeedToken(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  logger.log("Saving user profile", { userId: profile.userId, localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE) {
+    logger.logContent(
+      "User profile saved (local storage)",
+      { userId: profile.userId },
+      {
+        content: JSON.stringify(record, null, 2),
+        prefix: "user-profile",
+        suffix: profile.userId,
+        extension: "json",
+      }
+    );
+    return;
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: record,
+    })
+  );
+
+  logger.log("User profile saved to DynamoDB", { userId: profile.userId });
+}
+
+/**
+ * Get a user profile by userId
+ * @param userId - The user ID
+ */
+async function getById(userId: string): Promise<UserProfile | null> {
+  logger.log("Fetching user profile from DynamoDB", { userId });
+
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch user profile");
+    return null;
+  }
+
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { userId },
+    })
+  );
+
+  return (result.Item as UserProfile | undefined) ?? null;
+}
+
+/**
+ * Update the timestamp of the last sent digest
+ * @param userId - The user ID
+ * @param lastDigestAt - Timestamp until which auctions were included in the digest
+ */
+async function updateLastDigestAt(userId: string, lastDigestAt: string): Promise<void> {
+  logger.log("Updating last digest timestamp", {
+    userId,
+    lastDigestAt,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { userId },
+      UpdateExpression: "SET lastDigestAt = :lastDigestAt",
+      ExpressionAttributeValues: {
+        ":lastDigestAt": lastDigestAt,
+      },
+    })
+  );
+}
+
+/**
+ * Get a user profile by its RSS feed token
+ * @param feedToken - The feed token from the feed URL
+ */
+async function getByFeedToken(feedToken: string): Promise<UserProfile | null> {
+  logger.log("Fetching user profile by feed token from DynamoDB");
+
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch user profile");
+    return null;
+  }
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: FEED_TOKEN_GSI_NAME,
+      KeyConditionExpression: "feedToken = :feedToken",
+      ExpressionAttributeValues: {
+        ":feedToken": feedToken,
+      },
+      Limit: 1,
+    })
+  );
+
+  return (result.Items?.[0] as UserProfile | undefined) ?? null;
+}
+
+/**
+ * Get all user profiles
+ * The team is small, so a scan is fine here
+ */
+async function getAll(): Promise<UserProfile[]> {
+  logger.log("Fetching all user profiles from DynamoDB");
+
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch user profiles");
+    return [];
+  }
+
+  const profiles: UserProfile[] = [];
+  const paginator = paginateScan({ client: docClient }, { TableName: TABLE_NAME });
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      profiles.push(...(page.Items as UserProfile[]));
+    }
+  }
+
+  logger.log("User profiles fetched from DynamoDB", { count: profiles.length });
+
+  return profiles;
+}
+
+export const UserProfileRepository = {
+  save,
+  getById,
+  getByFeedToken,
+  getAll,
+  updateLastDigestAt,
+};
@@ -1,16 +1,18 @@
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { ConditionalCheckFailedException, DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import {
   DynamoDBDocumentClient,
   UpdateCommand,
   QueryCommand,
   GetCommand,
+  paginateQuery,
+  paginateScan,
 } from "@aws-sdk/lib-dynamodb";
 import { logger } from "../utils/logger.js";
 import { DrivingResult } from "../types/DrivingResult.js";
+import { SuitabilityScoreRule, UserSuitability } from "../types/SuitabilityScore.js";
 
 const TABLE_NAME = process.env.USER_SUITABILITY_TABLE_NAME || "UserSuitabilityTable";
 const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
-const DEFAULT_USER_ID = "marko";
 
 const client = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(client, {
@@ -24,23 +26,51 @@ export type UserSuitabilityRecord = {
   userId: string;
   auctionId: string;
   aiSuitability?: string;
+  /** Score parsed from aiSuitability */
+  aiScore?: number | null;
+  /** Deterministic rule-based score (SuitabilityScoreService) */
+  ruleScore?: number;
+  ruleScoreBreakdown?: SuitabilityScoreRule[];
+  /** AI score and rule score differ significantly */
+  scoreDisagreement?: boolean;
   drivingInfo?: DrivingResult | null;
+  /** Timestamp when the suitability was first published (sort key of the "published" GSI) */
+  publishedAt?: string;
+  /** {aiScore bucket}#{publishedAt} (sort key of the "score" GSI, see getScoreKey) */
+  scoreKey?: string;
   createdAt: string;
   updatedAt: string;
 };
 
 /**
- * Save AI suitability for an auction
+ * Sort key of the "score" GSI - the whole-number score padded to two digits, then publishedAt,
+ * so the auctions of one score can be read newest first with begins_with
+ * @returns undefined without an AI score (the record is not in the GSI)
+ */
+function getScoreKey(aiScore: number | null | undefined, publishedAt: string): string | undefined {
+  if (aiScore == null) {
+    return undefined;
+  }
+  return `${String(Math.floor(aiScore)).padStart(2, "0")}#${publishedAt}`;
+}
+
+/**
+ * Save AI suitability and rule-based score for an auction
+ * Also sets publishedAt on the first save, which adds the record to the "published" GSI
+ * Re-analysis keeps publishedAt, so the auction keeps its position in the feeds
+ * @param userId - The user ID
  * @param auctionId - The auction ID
- * @param aiSuitability - The AI-generated suitability analysis
- * @param userId - The user ID (defaults to "marko")
+ * @param suitability - The AI-generated suitability analysis and rule-based score
  */
 async function saveSuitability(
+  userId: string,
   auctionId: string,
-  aiSuitability: string,
-  userId: string = DEFAULT_USER_ID
+  suitability: UserSuitability
 ): Promise<void> {
   const now = new Date().toISOString();
+  const existing = LOCAL_STORAGE ? null : await getByAuctionId(userId, auctionId);
+  const publishedAt = existing?.publishedAt ?? now;
+  const scoreKey = getScoreKey(suitability.aiScore, publishedAt);
 
   logger.log("Saving user suitability", {
     userId,
@@ -53,7 +83,7 @@ async function saveSuitability(
       "User suitability saved (local storage)",
       { userId, auctionId },
       {
-        content: JSON.stringify({ userId, auctionId, aiSuitability }, null, 2),
+        content: JSON.stringify({ userId, auctionId, ...suitability }, null, 2),
         prefix: "user-suitability",
         suffix: `${userId}-${auctionId}`,
         extension: "json",
@@ -70,9 +100,16 @@ async function saveSuitability(
         auctionId,
       },
       UpdateExpression:
-        "SET aiSuitability = :aiSuitability, updatedAt = :updatedAt, createdAt = if_not_exists(createdAt, :createdAt)",
+        "SET aiSuitability = :aiSuitability, aiScore = :aiScore, ruleScore = :ruleScore, ruleScoreBreakdown = :ruleScoreBreakdown, scoreDisagreement = :scoreDisagreement, publishedAt = :publishedAt, updatedAt = :updatedAt, createdAt = if_not_exists(createdAt, :createdAt)" +
+        (scoreKey ? ", scoreKey = :scoreKey" : " REMOVE scoreKey"),
       ExpressionAttributeValues: {
-        ":aiSuitability": aiSuitability,
+        ":aiSuitability": suitability.aiSuitability,
+        ":aiScore": suitability.aiScore,
+        ":ruleScore": suitability.ruleScore,
+        ":ruleScoreBreakdown": suitability.ruleScoreBreakdown,
+        ":scoreDisagreement": suitability.scoreDisagreement,
+        ":publishedAt": publishedAt,
+        ":scoreKey": scoreKey,
         ":updatedAt": now,
         ":createdAt": now,
       },
@@ -84,14 +121,14 @@ async function saveSuitability(
 
 /**
  * Save driving info for an auction
+ * @param userId - The user ID
  * @param auctionId - The auction ID
- * @param drivingInfo - The driving info from home
- * @param userId - The user ID (defaults to "marko")
+ * @param drivingInfo - The driving info from the user's home
  */
 async function saveDrivingInfo(
+  userId: string,
   auctionId: string,
-  drivingInfo: DrivingResult | null,
-  userId: string = DEFAULT_USER_ID
+  drivingInfo: DrivingResult | null
 ): Promise<void> {
   const now = new Date().toISOString();
 
@@ -137,12 +174,12 @@ async function saveDrivingInfo(
 
 /**
  * Get user suitability for an auction
+ * @param userId - The user ID
  * @param auctionId - The auction ID
- * @param userId - The user ID (defaults to "marko")
  */
 async function getByAuctionId(
-  auctionId: string,
-  userId: string = DEFAULT_USER_ID
+  userId: string,
+  auctionId: string
 ): Promise<UserSuitabilityRecord | null> {
   logger.log("Fetching user suitability from DynamoDB", { userId, auctionId });
 
@@ -174,9 +211,9 @@ async function getByAuctionId(
 
 /**
  * Get all suitabilities for a user
- * @param userId - The user ID (defaults to "marko")
+ * @param userId - The user ID
  */
-async function getAllByUserId(userId: string = DEFAULT_USER_ID): Promise<UserSuitabilityRecord[]> {
+async function getAllByUserId(userId: string): Promise<UserSuitabilityRecord[]> {
   logger.log("Fetching all user suitabilities from DynamoDB", { userId });
 
   if (LOCAL_STORAGE) {
@@ -204,9 +241,191 @@ async function getAllByUserId(userId: string = DEFAULT_USER_ID): Promise<UserSui
   return records;
 }
 
+const GSI_NAME = "published";
+const SCORE_GSI_NAME = "score";
+const GSI_LIMIT = 100;
+const MAX_SCORE = 10;
+
+/**
+ * Get IDs of the user's published auctions with AI score at least minScore (most recent first)
+ * Reads the "score" GSI once per whole-number score from minScore to 10, each newest first,
+ * so only auctions with a high enough score are read
+ * @param userId - The user ID
+ * @param minScore - Minimum AI score (inclusive)
+ * @returns Array of auction IDs (up to 100)
+ */
+async function getPublishedAuctionIdsByMinScore(
+  userId: string,
+  minScore: number
+): Promise<string[]> {
+  logger.log("Fetching published auction IDs by score", { userId, minScore });
+
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch auction IDs");
+    return [];
+  }
+
+  const scores: number[] = [];
+  for (let score = Math.max(0, Math.floor(minScore)); score <= MAX_SCORE; score++) {
+    scores.push(score);
+  }
+
+  const results = await Promise.all(
+    scores.map(async (score) => {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: TABLE_NAME,
+          IndexName: SCORE_GSI_NAME,
+          KeyConditionExpression: "userId = :userId AND begins_with(scoreKey, :score)",
+          // Fractional scores share the bucket of their whole number
+          FilterExpression: "aiScore >= :minScore",
+          ExpressionAttributeValues: {
+            ":userId": userId,
+            ":score": `${String(score).padStart(2, "0")}#`,
+            ":minScore": minScore,
+          },
+          ProjectionExpression: "auctionId, publishedAt",
+          ScanIndexForward: false, // Most recent first
+          Limit: GSI_LIMIT,
+        })
+      );
+      return (result.Items ?? []) as Pick<UserSuitabilityRecord, "auctionId" | "publishedAt">[];
+    })
+  );
+
+  const auctionIds = results
+    .flat()
+    .sort((a, b) => (b.publishedAt ?? "").localeCompare(a.publishedAt ?? ""))
+    .slice(0, GSI_LIMIT)
+    .map((item) => item.auctionId);
+
+  logger.log("Published auction IDs by score fetched", { userId, count: auctionIds.length });
+
+  return auctionIds;
+}
+
+/**
+ * Get the user's suitabilities published after the given timestamp (most recent first)
+ * @param userId - The user ID
+ * @param since - Exclusive lower bound for publishedAt (ISO timestamp)
+ */
+async function getPublishedSince(userId: string, since: string): Promise<UserSuitabilityRecord[]> {
+  logger.log("Fetching user suitabilities published since", { userId, since });
+
+  if (LOCAL_STORAGE) {
+    logger.log("Local storage mode - cannot fetch user suitabilities");
+    return [];
+  }
+
+  const records: UserSuitabilityRecord[] = [];
+  const paginator = paginateQuery(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      IndexName: GSI_NAME,
+      KeyConditionExpression: "userId = :userId AND publishedAt > :since",
+      ExpressionAttributeValues: {
+        ":userId": userId,
+        ":since": since,
+      },
+      ScanIndexForward: false, // Most recent first
+    }
+  );
+
+  for await (const page of paginator) {
+    records.push(...((page.Items || []) as UserSuitabilityRecord[]));
+  }
+
+  logger.log("User suitabilities published since fetched", { userId, count: records.length });
+
+  return records;
+}
+
+/**
+ * Remove the auction from the user's published and score feeds (e.g. a duplicate copy)
+ * The suitability itself is kept, a missing record is not created
+ * @param userId - The user ID
+ * @param auctionId - The auction ID
+ */
+async function unpublish(userId: string, auctionId: string): Promise<void> {
+  logger.log("Unpublishing user suitability", { userId, auctionId, localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          userId,
+          auctionId,
+        },
+        UpdateExpression: "SET updatedAt = :updatedAt REMOVE publishedAt, scoreKey",
+        ConditionExpression: "attribute_exists(userId)",
+        ExpressionAttributeValues: {
+          ":updatedAt": new Date().toISOString(),
+        },
+      })
+    );
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Set scoreKey on records saved before the "score" GSI existed
+ * @returns Number of updated records
+ */
+async function backfillScoreKeys(): Promise<number> {
+  logger.log("Backfilling user suitability score keys", { localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE) {
+    return 0;
+  }
+
+  let updated = 0;
+  const paginator = paginateScan(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      FilterExpression: "attribute_exists(publishedAt) AND attribute_not_exists(scoreKey)",
+    }
+  );
+
+  for await (const page of paginator) {
+    for (const record of (page.Items ?? []) as UserSuitabilityRecord[]) {
+      const scoreKey = getScoreKey(record.aiScore, record.publishedAt);
+      if (!scoreKey) {
+        continue;
+      }
+      await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { userId: record.userId, auctionId: record.auctionId },
+          UpdateExpression: "SET scoreKey = :scoreKey",
+          ExpressionAttributeValues: { ":scoreKey": scoreKey },
+        })
+      );
+      updated++;
+    }
+  }
+
+  logger.log("User suitability score keys backfilled", { updated });
+
+  return updated;
+}
+
 export const UserSuitabilityRepository = {
   saveSuitability,
   saveDrivingInfo,
   getByAuctionId,
   getAllByUserId,
+  getPublishedAuctionIdsByMinScore,
+  getPublishedSince,
+  unpublish,
+  backfillScoreKeys,
 };
@@ -0,0 +1,114 @@
+import { AuctionProperty } from "../types/Auction.js";
+import { AuctionBase } from "../types/AuctionBase.js";
+import { ValuationComponent, ValuationComponentReason } from "../types/ValuationBreakdown.js";
+
+/**
+ * Building number of a building or building part number (e.g. *123/4 -> 123)
+ */
+function getBuildingNumber(number: string): string {
+  return number.replace(/^\*/, "").split("/")[0].trim();
+}
+
+/**
+ * Aggregate property valuations without overlapping values
+ * - the same GURS valuation is counted once
+ * - a whole building is not counted when its building parts are valued
+ * - a parcel is not counted when a valued building part stands on it, GURS building part values
+ *   already include the attributable land
+ * Values are taken as valued, i.e. reduced by the ownership share of each property
+ * @param properties - Properties with valuations (parcels with buildingNumbers from prostor.si)
+ * @param auction - Auction with the ownership share used when a property has none
+ * @returns Total of the included values (null if none) and all components
+ */
+function aggregate(
+  properties: AuctionProperty[] | null,
+  auction: Pick<AuctionBase, "ownershipShare">
+): { total: number | null; components: ValuationComponent[] } {
+  const valued = (properties ?? []).filter((prop) => prop.valuation?.value > 0);
+
+  // Buildings (per cadastral municipality) with valued building parts
+  const buildingsWithParts = new Set(
+    valued
+      .filter((prop) => prop.valuation.type === "building_part")
+      .map(
+        (prop) =>
+          `${prop.valuation.cadastralMunicipality}#${getBuildingNumber(prop.valuation.number)}`
+      )
+  );
+  const hasBuildingParts = buildingsWithParts.size > 0;
+
+  const seen = new Set<string>();
+  const components: ValuationComponent[] = (properties ?? []).map((prop) => {
+    const valuation = prop.valuation?.value > 0 ? prop.valuation : null;
+    const cadastralMunicipality = valuation?.cadastralMunicipality ?? prop.cadastralMunicipality;
+    const number = valuation?.number ?? prop.number;
+    const type = valuation?.type ?? prop.type;
+
+    let reason: ValuationComponentReason = "included";
+    const key = `${type}#${cadastralMunicipality}#${number}`;
+    if (!valuation) {
+      reason = "no_valuation";
+    } else if (seen.has(key)) {
+      reason = "duplicate";
+    } else if (
+      type === "building" &&
+      buildingsWithParts.has(`${cadastralMunicipality}#${getBuildingNumber(number)}`)
+    ) {
+      reason = "building_parts_listed";
+    } else if (type === "parcel" && hasBuildingParts) {
+      if (!prop.buildingNumbers) {
+        reason = "included_unverified";
+      } else if (
+        prop.buildingNumbers.some((building) =>
+          buildingsWithParts.has(`${cadastralMunicipality}#${getBuildingNumber(building)}`)
+        )
+      ) {
+        reason = "land_in_building_part";
+      }
+    }
+    seen.add(key);
+
+    return {
+      type,
+      cadastralMunicipality,
+      number,
+      value: valuation?.value ?? null,
+      ownershipShare: prop.ownershipShare ?? auction.ownershipShare ?? null,
+      reducedByOwnershipShare: valuation?.reducedByOwnershipShare === true,
+      included: reason === "included" || reason === "included_unverified",
+      reason,
+    };
+  });
+
+  const total = components
+    .filter((component) => component.included)
+    .reduce((sum, component) => sum + component.value, 0);
+
+  return { total: total > 0 ? total : null, components };
+}
+
+/**
+ * Explanation of the component in the markdown
+ */
+function formatReason(reason: ValuationComponentReason): string {
+  switch (reason) {
+    case "included":
+      return "upoštevano";
+    case "included_unverified":
+      return "upoštevano, ni podatka o stavbah na parceli - vrednost se lahko prekriva z delom stavbe";
+    case "duplicate":
+      return "ni upoštevano, isto vrednotenje je že upoštevano";
+    case "building_parts_listed":
+      return "ni upoštevano, deli stavbe so vrednoteni posebej";
+    case "land_in_building_part":
+      return "ni upoštevano, vrednost dela stavbe že vključuje pripadajoče zemljišče";
+    case "no_valuation":
+      return "ni vrednotenja GURS";
+  }
+}
+
+export const ValuationAggregationService = {
+  getBuildingNumber,
+  aggregate,
+  formatReason,
+};
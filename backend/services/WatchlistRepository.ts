@@ -0,0 +1,114 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  PutCommand,
+  paginateQuery,
+} from "@aws-sdk/lib-dynamodb";
+import { logger } from "../utils/logger.js";
+
+const TABLE_NAME = process.env.WATCHLIST_TABLE_NAME || "WatchlistTable";
+const LOCAL_STORAGE = process.env.LOCAL_STORAGE === "true";
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Watched auction - the user gets deadline reminders for it
+ */
+export type WatchlistRecord = {
+  userId: string;
+  auctionId: string;
+  /** Timestamp when the auction was added to the watchlist */
+  addedAt: string;
+};
+
+/**
+ * Add an auction to the user's watchlist
+ * @param userId - The user ID
+ * @param auctionId - The auction ID
+ */
+async function add(userId: string, auctionId: string): Promise<WatchlistRecord> {
+  const record: WatchlistRecord = {
+    userId,
+    auctionId,
+    addedAt: new Date().toISOString(),
+  };
+
+  logger.log("Adding auction to watchlist", { userId, auctionId, localStorage: LOCAL_STORAGE });
+
+  if (LOCAL_STORAGE) {
+    return record;
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: record,
+    })
+  );
+
+  return record;
+}
+
+/**
+ * Remove an auction from the user's watchlist
+ * @param userId - The user ID
+ * @param auctionId - The auction ID
+ */
+async function remove(userId: string, auctionId: string): Promise<void> {
+  logger.log("Removing auction from watchlist", {
+    userId,
+    auctionId,
+    localStorage: LOCAL_STORAGE,
+  });
+
+  if (LOCAL_STORAGE) {
+    return;
+  }
+
+  await docClient.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: { userId, auctionId },
+    })
+  );
+}
+
+/**
+ * Get all watched auctions of the user
+ * @param userId - The user ID
+ */
+async function getByUserId(userId: string): Promise<WatchlistRecord[]> {
+  if (LOCAL_STORAGE) {
+    return [];
+  }
+
+  const records: WatchlistRecord[] = [];
+  const paginator = paginateQuery(
+    { client: docClient },
+    {
+      TableName: TABLE_NAME,
+      KeyConditionExpression: "userId = :userId",
+      ExpressionAttributeValues: {
+        ":userId": userId,
+      },
+    }
+  );
+
+  for await (const page of paginator) {
+    if (page.Items) {
+      records.push(...(page.Items as WatchlistRecord[]));
+    }
+  }
+
+  return records;
+}
+
+export const WatchlistRepository = {
+  add,
+  remove,
+  getByUserId,
+};
@@ -0,0 +1,30 @@
+/**
+ * Generic webhook - receives the Auction as JSON, signed with HMAC-SHA256 of the shared secret
+ */
+export type WebhookAlertChannel = {
+  type: "webhook";
+  url: string;
+  /** Shared secret for the X-Drazbe-Signature header */
+  secret: string;
+};
+
+/**
+ * Telegram chat - messages are sent by the bot with token in /drazbe-ai/telegram-bot-token
+ */
+export type TelegramAlertChannel = {
+  type: "telegram";
+  chatId: string;
+};
+
+/**
+ * Email - sent with MailService
+ */
+export type EmailAlertChannel = {
+  type: "email";
+  to: string;
+};
+
+/**
+ * Channel an instant alert about a top match or a deadline reminder is delivered to
+ */
+export type AlertChannel = WebhookAlertChannel | TelegramAlertChannel | EmailAlertChannel;
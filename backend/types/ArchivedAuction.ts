@@ -0,0 +1,39 @@
+import { Auction } from "./Auction.js";
+import { AuctionOutcome } from "./AuctionOutcome.js";
+import { DrivingResult } from "./DrivingResult.js";
+import { UserSuitability } from "./SuitabilityScore.js";
+
+/**
+ * Suitability of the archived auction for one user
+ */
+export type ArchivedSuitability = Partial<UserSuitability> & {
+  userId: string;
+  drivingInfo: DrivingResult | null;
+  publishedAt: string | null;
+};
+
+/**
+ * Auction written to the archive when its MAIN record expires - the full auction with
+ * properties, documents, images, the analysis and every user's suitability
+ * Stored as one JSON line per auction under auctions/year=YYYY/month=MM/ (month of the dueDate)
+ */
+export type ArchivedAuction = Omit<Auction, "aiSuitability" | "aiScore" | "drivingInfo"> & {
+  suitabilities: ArchivedSuitability[];
+  /** Timestamp when the MAIN record was created */
+  createdAt: string;
+  /** Timestamp when the auction was archived */
+  archivedAt: string;
+};
+
+/**
+ * Outcome of an auction in the archive, stored under outcomes/year=YYYY/month=MM/ (month of the
+ * dueDate) and joined with the archived auctions by auctionId
+ */
+export type ArchivedOutcome = AuctionOutcome & {
+  auctionId: string;
+  dataSourceCode: string;
+  title: string;
+  /** Starting price */
+  price: number | null;
+  dueDate: string;
+};
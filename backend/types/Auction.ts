@@ -5,6 +5,12 @@ import { GursBuildingPartValuation } from "./GursBuildingPartValuation.js";
 import { AuctionImage } from "./AuctionImage.js";
 import { AuctionBase } from "./AuctionBase.js";
 import { DrivingResult } from "./DrivingResult.js";
+import { AuctionOutcome } from "./AuctionOutcome.js";
+import { PriceHistoryEntry } from "./LotHistory.js";
+import { PriceEstimate } from "./PriceEstimate.js";
+import { PropertyComparables } from "./Comparable.js";
+import { ValuationComponent } from "./ValuationBreakdown.js";
+import { PropertyResolution } from "./PropertyResolution.js";
 
 /**
  * Property valuation data
@@ -18,6 +24,16 @@ export type AuctionProperty = Property & {
   valuation?: AuctionPropertyValuation;
   /** URL to the property map/screenshot image */
   mapImageUrl?: string;
+  /** Comparable sales from the ETN open dataset */
+  comparables?: PropertyComparables;
+  /** Numbers of buildings standing on the parcel (from prostor.si, parcels only) */
+  buildingNumbers?: string[];
+  /** How the property was matched to the GURS record */
+  resolution?: PropertyResolution;
+  /** KO name from the cadastral municipality registry */
+  cadastralMunicipalityName?: string;
+  /** Municipality (občina) of the KO from the registry */
+  municipality?: string;
 };
 
 /**
@@ -29,10 +45,26 @@ export type PriceToValueRatio = {
   toEstimatedValue: number | null;
   /** Ratio % based on sum of all property valuations (if available) */
   toPropertyValuations: number | null;
-  /** Total sum of all property valuations in € */
+  /** Total of property valuations in € without overlapping values (see valuationComponents) */
   totalPropertyValuation: number | null;
   /** Whether property valuations were reduced by ownership share */
   valuationsReducedByOwnershipShare: boolean;
+  /** Valuations the total is made of, with the reason each was included or excluded */
+  valuationComponents?: ValuationComponent[];
+  /** Ratio % based on comparable sales (median €/m² × area, if available) */
+  toComparables?: number | null;
+  /** Total value of all properties by comparable sales in € */
+  totalComparablesValue?: number | null;
+  /** Offered land area in m² (parcels, reduced by ownership share) */
+  landArea?: number | null;
+  /** Offered floor area in m² (buildings and building parts, reduced by ownership share) */
+  buildingArea?: number | null;
+  /** Price per m² of the offered floor area, or of the land area if there are no buildings */
+  pricePerM2?: number | null;
+  /** GURS value of parcels per m² of land */
+  gursLandValuePerM2?: number | null;
+  /** GURS value of buildings and building parts per m² of floor area */
+  gursBuildingValuePerM2?: number | null;
 };
 
 /**
@@ -54,6 +86,8 @@ export type Auction = Omit<
   aiGursValuationMakesSense: boolean | null;
   /** AI-generated suitability assessment */
   aiSuitability: string | null;
+  /** AI suitability score 0 - 10 (stored in UserSuitabilityTable) */
+  aiScore: number | null;
   /** Driving info from user's home */
   drivingInfo: DrivingResult | null;
   properties: AuctionProperty[] | null;
@@ -63,4 +97,12 @@ export type Auction = Omit<
   priceToValueRatio: PriceToValueRatio;
   /** Timestamp when the auction was published (AI analysis completed) */
   publishedAt: string | null;
+  /** Earlier offerings of the same lot (relistings), newest first */
+  priceHistory?: PriceHistoryEntry[];
+  /** Expected final price from historical outcomes of similar auctions */
+  priceEstimate?: PriceEstimate | null;
+  /** Set on a copy of the same sale from another source - ID of the auction it was merged into */
+  duplicateOf?: string;
+  /** What happened after the deadline (sold, unsuccessful, ...), see OutcomeService */
+  outcome?: AuctionOutcome;
 };
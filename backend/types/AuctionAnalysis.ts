@@ -17,6 +17,9 @@ export const auctionAnalysisSchema = z.object({
     .describe(
       "Ocena kako dobro ustreza zahtevam. Začne se s številčno oceno 0 - 10, nato kratek opis."
     ),
+  aiScore: z
+    .number()
+    .describe("Številčna ocena primernosti 0 - 10 (enaka kot na začetku aiSuitability)"),
 });
 
 export type AuctionAnalysis = z.infer<typeof auctionAnalysisSchema>;
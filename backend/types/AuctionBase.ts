@@ -41,9 +41,28 @@ export const auctionBaseSchema = z.object({
     )
     .nullable(),
   publicationDate: z.string().describe("Datum objave").nullable(),
+  caseNumber: z
+    .string()
+    .describe(
+      "Opravilna številka sodne zadeve ali številka zadeve, če je navedena (npr. 'In 123/2024', 'I 45/2023', 'St 678/2022')"
+    )
+    .nullable(),
   dueDate: z.string().describe("Rok / aktualno do").nullable(),
+  auctionRound: z
+    .number()
+    .describe("Zaporedna številka dražbe/prodaje (1 = prva dražba, 2 = druga ...), če je navedena")
+    .nullable(),
+  viewingDates: z
+    .array(z.string())
+    .describe(
+      "Termini ogledov nepremičnine v ISO formatu (npr. '2025-03-14T10:00'), če so navedeni. Prazen seznam, če ogled ni naveden ali je samo po dogovoru."
+    ),
   description: z.string().describe("Do 200 znakov opisa nepremičnine").nullable(),
   location: z.string().describe("Lokacija nepremičnine, če je navedena").nullable(),
+  municipality: z
+    .string()
+    .describe("Občina, v kateri je nepremičnina (npr. 'Ljubljana', 'Novo mesto'), če je znana")
+    .nullable(),
   price: z
     .number()
     .describe("Cena ali izklicna cena ali ponudbena cena, če je navedena")
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+/**
+ * Outcome of an auction as read from the announcement after its deadline
+ */
+export const auctionOutcomeSchema = z.object({
+  status: z
+    .enum(["sold", "unsuccessful", "cancelled", "postponed", "unknown"])
+    .describe(
+      "Izid: 'sold' = prodano (uspešna dražba, izbran kupec), 'unsuccessful' = neuspešna dražba (ni bilo ponudb), 'cancelled' = preklicano/ustavljeno, 'postponed' = preloženo na nov datum, 'unknown' = izid ni objavljen"
+    ),
+  achievedPrice: z
+    .number()
+    .describe("Dosežena (prodajna) cena v EUR, če je objavljena. Ne navajaj izklicne cene.")
+    .nullable(),
+  outcomeDate: z
+    .string()
+    .describe("Datum izida v ISO formatu (YYYY-MM-DD), če je naveden")
+    .nullable(),
+  newDueDate: z
+    .string()
+    .describe("Nov datum dražbe v ISO formatu, če je dražba preložena")
+    .nullable(),
+  note: z.string().describe("Kratka utemeljitev izida, do 200 znakov").nullable(),
+});
+
+export type AuctionOutcomeExtraction = z.infer<typeof auctionOutcomeSchema>;
+
+export type AuctionOutcomeStatus = Exclude<AuctionOutcomeExtraction["status"], "unknown">;
+
+/**
+ * Recorded outcome of an auction - stored in the outcome table (OutcomeTrackingRecord) and in the
+ * archive. The MAIN record expires one day after dueDate, so it rarely still exists to get it
+ */
+export type AuctionOutcome = Omit<AuctionOutcomeExtraction, "status"> & {
+  status: AuctionOutcomeStatus;
+  /** Announcement URL the outcome was read from */
+  sourceUrl: string;
+  /** Timestamp when the outcome was read */
+  checkedAt: string;
+};
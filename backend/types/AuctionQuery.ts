@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+/** Comma separated list, e.g. "javna-drazba,klasicna-prodaja" */
+const listParam = z.string().transform((value) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+);
+
+const booleanParam = z.enum(["true", "false"]).transform((value) => value === "true");
+
+const dateParam = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), { message: "Invalid date" });
+
+/**
+ * Query string parameters of the auction list API
+ * Driving time and score filters apply to the suitability of the user with the given personal
+ * feed token (token is required)
+ */
+export const auctionQuerySchema = z
+  .object({
+    /** Auction types (AuctionBase.type) */
+    type: listParam.optional(),
+    dataSourceCode: listParam.optional(),
+    minPrice: z.coerce.number().optional(),
+    maxPrice: z.coerce.number().optional(),
+    /** Minimum discount in % against estimated value, GURS valuation or comparable sales (Relativna cena) */
+    minDiscount: z.coerce.number().optional(),
+    /** Price per m² window in € (PriceToValueRatio.pricePerM2) */
+    minPricePerM2: z.coerce.number().optional(),
+    maxPricePerM2: z.coerce.number().optional(),
+    isHouse: booleanParam.optional(),
+    /** Municipalities (občine) - matches the auction municipality, case and diacritics insensitive */
+    municipality: listParam.optional(),
+    /** Parcel types - matches if any property has one of them */
+    parcelType: listParam.optional(),
+    /** Due date window (inclusive) */
+    dueFrom: dateParam.optional(),
+    dueTo: dateParam.optional(),
+    /** Personal feed token of the user whose suitability and driving info is attached */
+    token: z.string().min(1).optional(),
+    maxDrivingTime: z.coerce.number().optional(),
+    minScore: z.coerce.number().min(0).max(10).optional(),
+    /** Publish date order */
+    order: z.enum(["asc", "desc"]).default("desc"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    /** Opaque cursor from the previous page (nextCursor) */
+    cursor: z.string().optional(),
+  })
+  .refine((query) => query.token || (query.maxDrivingTime == null && query.minScore == null), {
+    message: "token is required for maxDrivingTime and minScore",
+    path: ["token"],
+  });
+
+export type AuctionQuery = z.infer<typeof auctionQuerySchema>;
+
+/**
+ * Filter part of the query (without paging and ordering)
+ */
+export type AuctionFilter = Omit<AuctionQuery, "order" | "limit" | "cursor">;
+
+/**
+ * Query string parameters of the RSS feed, mapped to AuctionFilter
+ * The feed user is given by the feed token (none for the shared feed), not by a parameter
+ */
+export const rssFeedQuerySchema = z
+  .object({
+    minScore: z.coerce.number().min(0).max(10).optional(),
+    maxDrivingMinutes: z.coerce.number().optional(),
+    types: listParam.optional(),
+    sources: listParam.optional(),
+    maxPrice: z.coerce.number().optional(),
+  })
+  .transform(
+    (query): AuctionFilter => ({
+      minScore: query.minScore,
+      maxDrivingTime: query.maxDrivingMinutes,
+      type: query.types,
+      dataSourceCode: query.sources,
+      maxPrice: query.maxPrice,
+    })
+  );
@@ -0,0 +1,13 @@
+/**
+ * Cadastral municipality (katastrska občina) from the registry
+ */
+export type CadastralMunicipality = {
+  /** KO code (šifra katastrske občine), e.g. "1385" */
+  code: string;
+  /** KO name, e.g. "Podborš" */
+  name: string;
+  /** Municipality (občina) the KO lies in */
+  municipality: string | null;
+  /** Administrative unit (upravna enota) */
+  administrativeUnit: string | null;
+};
@@ -0,0 +1,42 @@
+/**
+ * Kind of real estate in the ETN (evidenca trga nepremičnin) transactions
+ */
+export type ComparableKind =
+  | "apartment"
+  | "house"
+  | "commercial"
+  | "building_land"
+  | "agricultural"
+  | "forest";
+
+/**
+ * Market transaction from the ETN open dataset similar to the auctioned property
+ */
+export type ComparableSale = {
+  transactionId: string;
+  /** Contract date (YYYY-MM-DD) */
+  date: string;
+  /** Price of the sold part in € */
+  price: number;
+  /** Sold area in m² */
+  area: number;
+  pricePerM2: number;
+  yearBuilt: number | null;
+  /** Distance from the auctioned property in m */
+  distanceM: number;
+  cadastralMunicipality: string;
+};
+
+/**
+ * Comparable sales of a property and the median €/m²
+ */
+export type PropertyComparables = {
+  kind: ComparableKind;
+  medianPricePerM2: number;
+  /** Number of comparable sales the median is based on */
+  count: number;
+  /** Search radius in m */
+  radiusM: number;
+  /** Closest comparable sales */
+  sales: ComparableSale[];
+};
@@ -28,6 +28,13 @@ export const gursValuationBaseSchema = z.object({
     .boolean()
     .optional()
     .describe("Ali je vrednost zmanjšana glede na lastniški delež"),
+  /** Timestamp when the valuation was retrieved from vrednotenje.gov.si */
+  retrievedAt: z.string().optional().describe("Datum pridobitve vrednotenja"),
+  /** Value at the previous retrieval, if GURS has revalued the property since */
+  previousValue: z
+    .number()
+    .optional()
+    .describe("Posplošena vrednost ob prejšnji pridobitvi, če se je spremenila"),
 });
 
 export type GursValuationBase = z.infer<typeof gursValuationBaseSchema>;
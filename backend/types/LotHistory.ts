@@ -0,0 +1,17 @@
+/**
+ * Earlier offering of the same lot - an auction with overlapping properties
+ * Slovenian court and municipal auctions are often repeated with a lower starting price
+ */
+export type PriceHistoryEntry = {
+  auctionId: string;
+  dataSourceCode: string;
+  /** Announcement URL of the earlier offering */
+  url: string | null;
+  price: number | null;
+  /** Deadline of the earlier offering (publicationDate if there was no dueDate) */
+  date: string | null;
+  /** Both offerings have the same case number (null if either case number is unknown) */
+  sameCase: boolean | null;
+  /** Change of the current price relative to this price in % (negative = cheaper now) */
+  changePercent: number | null;
+};
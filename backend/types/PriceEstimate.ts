@@ -0,0 +1,34 @@
+import { Auction } from "./Auction.js";
+
+/**
+ * Auction attributes the historical outcomes are grouped by
+ */
+export type PriceSegment = {
+  type: Auction["type"];
+  /** buildingType of the auction's building, parcelType otherwise */
+  propertyKind: string | null;
+  municipality: string | null;
+  /** Auction round (1 = first offering), rounds after the third are grouped together */
+  round: number;
+};
+
+/**
+ * Expected final (winning) price of an auction with an 80 % interval, from the ratios of final price
+ * to starting price (or to GURS value when there is no starting price) of similar sold auctions
+ */
+export type PriceEstimate = {
+  /** Value the historical ratios are applied to */
+  basis: "startingPrice" | "gursValue";
+  /** Median estimate in € */
+  estimate: number;
+  /** 10th percentile in € */
+  low: number;
+  /** 90th percentile in € */
+  high: number;
+  /** Median ratio of final price to the basis */
+  ratio: number;
+  /** Number of sold auctions the estimate is based on */
+  sampleCount: number;
+  /** Segment key of the sold auctions used (most specific segment with enough samples) */
+  segmentKey: string;
+};
@@ -0,0 +1,24 @@
+/**
+ * User's flag on a property - "interesting" to follow it, "rejected" when dismissed
+ * Either way the user is alerted when the property comes back cheaper or as an actual auction
+ */
+export type PropertyFlag = "interesting" | "rejected";
+
+/**
+ * Tracked property came back in a new announcement cheaper or as an actual auction
+ */
+export type PriceDrop = {
+  flag: PropertyFlag;
+  /** Flagged property keys (property IDs) found in the new announcement */
+  propertyKeys: string[];
+  previousAuctionId: string;
+  previousUrl: string | null;
+  previousPrice: number | null;
+  previousType: string;
+  /** New price minus the previous price in € (negative = cheaper now) */
+  priceDelta: number | null;
+  /** Change of the price in % (negative = cheaper now) */
+  changePercent: number | null;
+  /** The previous announcement was an intent to sell (namera), the new one is an actual sale */
+  becameAuction: boolean;
+};
@@ -0,0 +1,37 @@
+import { Auction, AuctionPropertyValuation } from "./Auction.js";
+import { PropertyKey } from "./PropertyIdentifier.js";
+
+/**
+ * Offering of a parcel or building part - one auction that involved it
+ */
+export type PropertyHistoryEntry = {
+  auctionId: string;
+  dataSourceCode: string;
+  /** null when only the lot history record of the offering is left */
+  title: string | null;
+  type: Auction["type"] | null;
+  urlSources: string[];
+  price: number | null;
+  estimatedValue: number | null;
+  dueDate: string | null;
+  publicationDate: string | null;
+  /** Canonical auction, when the offering was a copy from another source */
+  duplicateOf: string | null;
+  /** Area and ownership share offered in this auction */
+  area: number | null;
+  ownershipShare: number | null;
+  /** GURS valuation at the time of the offering */
+  valuation: AuctionPropertyValuation | null;
+  /** Timestamp when the offering was recorded */
+  recordedAt: string;
+};
+
+/**
+ * Every auction that ever involved the parcel or building part, newest first
+ */
+export type PropertyHistory = {
+  type: PropertyKey["type"];
+  cadastralMunicipality: string;
+  number: string;
+  entries: PropertyHistoryEntry[];
+};
@@ -13,6 +13,7 @@ export const propertyKeySchema = z.object({
       1382-Kompolje
       1392-Hubajnica
       1389-Goveji Dol
+      Če šifre ne poznaš, vpiši ime katastrske občine.
       `),
   number: z.string().describe("Številka parcele, stavbe ali dela stavbe (npr. 9, 536/6, *123). "),
 });
@@ -0,0 +1,26 @@
+/**
+ * How the property from the announcement was matched to a GURS record
+ * - exact: cadastral municipality and number match exactly
+ * - fuzzy: only one candidate matches after normalization (e.g. leading zeros, separators)
+ * - ambiguous: no single candidate matches, no valuation is used
+ * - not_found: the search returned no candidates
+ * - unnormalized: the number is not a single cadastral number (e.g. "536/6a"), it is kept as given
+ *   and not searched
+ */
+export type PropertyResolutionStatus =
+  | "exact"
+  | "fuzzy"
+  | "ambiguous"
+  | "not_found"
+  | "unnormalized";
+
+/**
+ * Result of matching the property to a GURS record
+ */
+export type PropertyResolution = {
+  status: PropertyResolutionStatus;
+  /** Number of the matched GURS record (exact and fuzzy) */
+  matchedNumber?: string;
+  /** Numbers of the best candidates (ambiguous) */
+  candidates?: string[];
+};
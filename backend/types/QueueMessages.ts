@@ -16,3 +16,11 @@ export type AuctionQueueMessage = {
 export type AuctionAnalysisQueueMessage = {
   auctionId: string;
 };
+
+/**
+ * Message payload for alert queue - auction matched the user's alert threshold
+ */
+export type AlertQueueMessage = {
+  userId: string;
+  auctionId: string;
+};
@@ -0,0 +1,17 @@
+/**
+ * What the reminder is about - the offer deadline (dueDate) or a viewing (viewingDates)
+ */
+export type ReminderKind = "due" | "viewing";
+
+/**
+ * Reminder about an upcoming deadline or viewing of a watched auction
+ */
+export type Reminder = {
+  kind: ReminderKind;
+  /** Date of the deadline or viewing as extracted (dueDate or one of viewingDates) */
+  date: string;
+  /** Configured offset in days the reminder was sent for (0 = on the day) */
+  offsetDays: number;
+  /** Calendar days left until the date (Europe/Ljubljana) */
+  daysLeft: number;
+};
@@ -0,0 +1,73 @@
+/**
+ * Auction attributes a suitability rule can test
+ * - drivingTimeMinutes: driving time from the user's home
+ * - parcelAreaM2: total area of all parcels
+ * - ownershipSharePercent: ownership share being sold (100 if not stated)
+ * - price: price in €
+ * - discountPercent: best discount against estimated value, GURS valuation or comparable sales (Relativna cena)
+ * - type: auction type (javna-drazba, klasicna-prodaja, ...)
+ * - isVacant: YES / NO / UNKNOWN
+ * - isBuildableParcel: at least one parcel is buildable (stavbno zemljišče)
+ * - propertyKind: apartment / house / building-parcel / ... (see PreferredPropertyType)
+ */
+export type SuitabilityField =
+  | "drivingTimeMinutes"
+  | "parcelAreaM2"
+  | "ownershipSharePercent"
+  | "price"
+  | "discountPercent"
+  | "type"
+  | "isVacant"
+  | "isBuildableParcel"
+  | "propertyKind";
+
+export type SuitabilityOperator = "lt" | "lte" | "gt" | "gte" | "eq" | "in";
+
+/**
+ * Single comparison, e.g. { field: "drivingTimeMinutes", operator: "lte", value: 60 }
+ */
+export type SuitabilityCondition = {
+  field: SuitabilityField;
+  operator: SuitabilityOperator;
+  value: number | string | boolean | string[];
+};
+
+/**
+ * Rule that applies when all of its conditions match
+ */
+export type SuitabilityRule = {
+  conditions: SuitabilityCondition[];
+  /** Human readable description, used instead of the generated one */
+  description?: string;
+  /** Score points the rule contributes (bonuses only, negative values lower the score) */
+  points?: number;
+};
+
+/**
+ * Importance of individual factors on a 0 - 3 scale
+ */
+export type SuitabilityWeights = {
+  distance: number;
+  price: number;
+  vacancy: number;
+  parcelArea: number;
+  saleType: number;
+};
+
+/**
+ * User-configurable suitability criteria
+ * Stored on the user profile and rendered into the AI analysis prompt
+ */
+export type SuitabilityCriteria = {
+  weights: SuitabilityWeights;
+  /** All must match, otherwise the score is 0 */
+  mustHave: SuitabilityRule[];
+  /** Any match means the score is 0 */
+  dealBreakers: SuitabilityRule[];
+  /** Contribute to a higher (or lower) score */
+  bonuses: SuitabilityRule[];
+  /** Any match means the score is 10 */
+  topMatches: SuitabilityRule[];
+  /** Free-form remarks that cannot be expressed as rules */
+  notes: string[];
+};
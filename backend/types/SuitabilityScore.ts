@@ -0,0 +1,40 @@
+/**
+ * Rule kinds that can contribute to the rule-based score (see SuitabilityCriteria)
+ */
+export type SuitabilityRuleKind = "mustHave" | "dealBreaker" | "bonus" | "topMatch";
+
+/**
+ * Single rule that fired while computing the rule-based score
+ */
+export type SuitabilityScoreRule = {
+  kind: SuitabilityRuleKind;
+  /** Rule description (same as in the AI prompt) */
+  description: string;
+  /** Points the rule contributed (bonuses only) */
+  points?: number;
+};
+
+/**
+ * Deterministic 0 - 10 score computed from auction fields and the user's criteria
+ */
+export type SuitabilityScore = {
+  score: number;
+  /** Rules that fired, in evaluation order */
+  breakdown: SuitabilityScoreRule[];
+};
+
+/**
+ * Suitability of an auction for a user - AI assessment and rule-based score side by side
+ */
+export type UserSuitability = {
+  /** AI-generated suitability assessment ("Ocena X, ...") */
+  aiSuitability: string;
+  /** AI score (AuctionAnalysis.aiScore, parsed from aiSuitability for older analyses) */
+  aiScore: number | null;
+  /** Rule-based score */
+  ruleScore: number;
+  /** Rules that fired for ruleScore */
+  ruleScoreBreakdown: SuitabilityScoreRule[];
+  /** AI score and rule score differ significantly */
+  scoreDisagreement: boolean;
+};
@@ -0,0 +1,57 @@
+import { SuitabilityCriteria } from "./SuitabilityCriteria.js";
+import { AlertChannel } from "./AlertChannel.js";
+
+/**
+ * Property types a user can prefer when looking for auctions
+ */
+export type PreferredPropertyType =
+  | "apartment"
+  | "house"
+  | "building-parcel"
+  | "agricultural-parcel"
+  | "forest"
+  | "commercial"
+  | "other";
+
+/**
+ * User profile - each team member has their own home base and goals
+ * Stored in UserProfileTable, keyed by userId (same userId as in UserSuitabilityTable)
+ */
+export type UserProfile = {
+  /** Partition key */
+  userId: string;
+  /** Display name */
+  name: string;
+  /** Home address used as origin for driving time calculation */
+  homeAddress: string;
+  /** Maximum price in € the user is willing to pay (null = no limit) */
+  budget: number | null;
+  /** Preferred property types (empty = all types are interesting) */
+  preferredPropertyTypes: PreferredPropertyType[];
+  /** Maximum acceptable driving time from home in minutes (null = no limit) */
+  maxDrivingTimeMinutes: number | null;
+  /** Own suitability criteria (default criteria are used if not set) */
+  criteria?: SuitabilityCriteria;
+  /** Unguessable token of the user's personal RSS feed (/rss/{feedToken}), generated on save */
+  feedToken?: string;
+  /** Email address for the daily digest (no digest if not set) */
+  email?: string;
+  /** Minimum AI score of auctions included in the digest (default 7) */
+  digestMinScore?: number;
+  /** Timestamp of the last sent digest, auctions published after it go into the next one */
+  lastDigestAt?: string;
+  /** Minimum AI score for an instant alert (no alerts if not set) */
+  alertMinScore?: number;
+  /** Channels instant alerts are delivered to */
+  alertChannels?: AlertChannel[];
+  /**
+   * Days before the deadline or viewing of a watched auction to send a reminder,
+   * 0 = on the morning of the day (default [7, 2, 0])
+   * Reminders go to alertChannels, or to email if no channels are set
+   */
+  reminderOffsetsDays?: number[];
+  /** Timestamp when the profile was created */
+  createdAt: string;
+  /** Timestamp when the profile was last updated */
+  updatedAt: string;
+};
@@ -0,0 +1,35 @@
+/**
+ * Why a property valuation was included in or excluded from the summed GURS valuation
+ * - included: counted in the total
+ * - included_unverified: counted, but it is unknown which buildings stand on the parcel, so
+ *   the land may already be included in a building part value
+ * - duplicate: the same GURS valuation is listed more than once
+ * - building_parts_listed: whole building, its building parts are valued separately
+ * - land_in_building_part: parcel under a listed building part, building part values include the
+ *   attributable land
+ * - no_valuation: GURS valuation not available
+ */
+export type ValuationComponentReason =
+  | "included"
+  | "included_unverified"
+  | "duplicate"
+  | "building_parts_listed"
+  | "land_in_building_part"
+  | "no_valuation";
+
+/**
+ * Property valuation as a component of the summed GURS valuation
+ */
+export type ValuationComponent = {
+  /** Property type as valued by GURS */
+  type: "parcel" | "building" | "building_part";
+  cadastralMunicipality: string;
+  number: string;
+  /** GURS value in € (reduced by ownership share if reducedByOwnershipShare) */
+  value: number | null;
+  /** Ownership share in % the value is based on (null = whole property) */
+  ownershipShare: number | null;
+  reducedByOwnershipShare: boolean;
+  included: boolean;
+  reason: ValuationComponentReason;
+};
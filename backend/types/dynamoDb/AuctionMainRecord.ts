@@ -4,9 +4,9 @@ import { Auction } from "../Auction.js";
 /**
  * Main auction record containing core auction data
  * Reuses properties from Auction type, excluding arrays (properties, documents, images)
- * which are stored as separate records, and drivingInfo which is stored in UserSuitabilityTable
+ * which are stored as separate records, and drivingInfo and aiScore which are stored in UserSuitabilityTable
  */
 export type AuctionMainRecord = AuctionRecordBase & {
   recordType: "MAIN";
   recordKey: "MAIN";
-} & Omit<Auction, "properties" | "documents" | "images" | "drivingInfo">;
+} & Omit<Auction, "properties" | "documents" | "images" | "drivingInfo" | "aiScore">;
@@ -2,6 +2,7 @@ import { AuctionRecordBase } from "./AuctionRecordBase.js";
 import { Property } from "../Property.js";
 import { GursParcelValuation } from "../GursParcelValuation.js";
 import { GursBuildingPartValuation } from "../GursBuildingPartValuation.js";
+import { PropertyResolution } from "../PropertyResolution.js";
 
 /**
  * Property record for each property in an auction
@@ -11,8 +12,12 @@ export type AuctionPropertyRecord = AuctionRecordBase & {
   recordType: "PROPERTY";
   /** Sort key: PROPERTY#propertyId */
   recordKey: `PROPERTY#${string}`;
+  /** "property" GSI partition key: the property ID (see generatePropertyId) */
+  propertyPk: string;
   /** Valuation data from GursValuationService (optional) */
   valuation?: GursParcelValuation | GursBuildingPartValuation;
   /** URL to the property map/screenshot image */
   mapImageUrl?: string;
+  /** How the property was matched to the GURS record (exact, fuzzy, ambiguous, not_found) */
+  resolution?: PropertyResolution;
 } & Property;
@@ -15,10 +15,12 @@ export type AuctionRecordBase = {
   recordType: AuctionRecordType;
   /** GSI partition key - set to "PUBLISHED" when auction is ready for public viewing */
   gsiPk?: string;
+  /** GSI sort key - timestamp when the auction was published */
+  date?: string;
   /** Timestamp when the record was created */
   createdAt: string;
   /** Timestamp when the record was last updated */
   updatedAt: string;
-  /** TTL - Unix timestamp (seconds) for when the record should be deleted (1 day after dueDate) */
+  /** TTL - Unix timestamp (seconds) for when the record should be deleted (MAIN: 1 day after dueDate, others a week later) */
   ttl: number;
 };
@@ -1,8 +1,18 @@
-import { Property } from "../types/Property.js";
+import { PropertyKey } from "../types/PropertyIdentifier.js";
 
 /**
- * Helper to generate property ID from property data
+ * Helper to generate property ID from property data ({type}#{cadastralMunicipality}-{number})
+ * The one key of a parcel or building part - PROPERTY record keys, the "property" GSI,
+ * property flags and the lot history all use it
+ * Numbers are normalized at extraction (normalizePropertyNumber), so the same property gets
+ * the same ID in every auction
+ * Parcel 123/4 and building part 123/4 in the same KO are different properties, so the type is
+ * part of the ID. Buildings and building parts share it, both are normalized to the building
+ * part number ("123" is 123/1)
  */
-export function generatePropertyId(property: Property): string {
-  return `${property.cadastralMunicipality}-${property.number}`;
+export function generatePropertyId(
+  property: Pick<PropertyKey, "type" | "cadastralMunicipality" | "number">
+): string {
+  const type = property.type === "parcel" ? "parcel" : "building_part";
+  return `${type}#${property.cadastralMunicipality.trim()}-${property.number.trim()}`;
 }
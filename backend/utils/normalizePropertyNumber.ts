@@ -0,0 +1,116 @@
+import { PropertyKey } from "../types/PropertyIdentifier.js";
+
+/** Max digits of a parcel or building number and of its second part */
+const MAX_NUMBER_DIGITS = 5;
+const MAX_PART_DIGITS = 4;
+
+/** Labels found around cadastral numbers ("k.o.", "parc. št.", "del stavbe", ...) */
+const LABELS =
+  /(?<![a-zčšžćđ])(?:k\.\s*o\.?|ko|parc(?:ela|ele)?\.?|št(?:evilka)?\.?|stavb[ae]\.?|dela?\.?|id)(?![a-zčšžćđ])/g;
+
+/** "stavba 123, del 5" - the part of a building part, the comma does not separate a list */
+const BUILDING_PART = /(\d)\s*,?\s*\bdela?\.?\s*(?=\d)/gi;
+/** Separators of a list of numbers ("536/6, 536/7", "12 in 13") */
+const LIST_SEPARATOR = /\s*[,;]\s*|\s+(?:in|ter)\s+/i;
+/** KO given as a list item ("k.o. 2242, parc. 9") */
+const KO_ITEM = /^(?:k\.\s*o\.?|ko)\s*\d+$/i;
+
+/**
+ * Split a number that lists several properties ("536/6, 536/7", "parc. št. 12 in 13")
+ * Two numbers separated only by a space ("12 13") are not split, the separator is ambiguous
+ * @returns The listed numbers, a single number is returned as is
+ */
+export function splitPropertyNumbers(number: string): string[] {
+  const items = (number ?? "")
+    .replace(BUILDING_PART, "$1/")
+    .split(LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  const numbers = items.filter((item) => !KO_ITEM.test(item));
+  return items.length > 1 && numbers.length > 0 ? numbers : [number];
+}
+
+/**
+ * Helper to normalize a parcel, building or building part number to the canonical form
+ * - parcel: "536/6", "9", "*15" (star parcels are kept, they are valid parcel numbers)
+ * - building and building part: "123/1" (star removed, "/1" added if the part is missing)
+ * Accepts the formats found in announcements: "2242 536-6", "2242-536-6", "2242 9" (with the KO
+ * code as prefix), "k.o. 2242 parc. 9", "parcela 784 *15", "del stavbe 123-5", "stavba 123, del 5"
+ * and leading zeros. "2242/9" is kept as parcel 2242/9 - a KO prefix is only removed if it is
+ * followed by a space or by two more parts
+ * Anything else is rejected rather than guessed, a wrong number binds to another property:
+ * lists ("12 in 13", "12 13", "536/6, 536/7"), letter suffixes ("536/6a") and dots ("1.234")
+ * Split lists with splitPropertyNumbers first, a rejected number is kept as given (unnormalized)
+ * @param property - Property with the KO code (used to remove the KO prefix from the number)
+ * @returns The canonical number, or null if the number is impossible or ambiguous (no digits,
+ * too many parts, zero, too long, unexpected characters or words)
+ */
+export function normalizePropertyNumber(
+  property: Pick<PropertyKey, "type" | "cadastralMunicipality" | "number">
+): string | null {
+  const isBuilding = property.type === "building" || property.type === "building_part";
+  const cadastralMunicipality = property.cadastralMunicipality?.trim().replace(/^0+/, "");
+
+  let value = (property.number ?? "").toLowerCase().trim();
+
+  // "stavba 123, del 5" - the part of a building part
+  value = value.replace(BUILDING_PART, "$1/");
+  value = value.replace(LABELS, " ").trim();
+
+  // Remaining words or suffixes and other separators are not part of a single cadastral number
+  if (!/^\*?\d[\d\s/*-]*$/.test(value)) {
+    return null;
+  }
+
+  // Separators are "/" and "-" (with optional spaces around) or a bare space
+  const tokens = value.split(/(\s*[/-]\s*|\s+)/);
+  let parts = tokens.filter((_, index) => index % 2 === 0);
+  let separators = tokens
+    .filter((_, index) => index % 2 === 1)
+    .map((separator) => separator.trim());
+
+  if (parts.some((part) => !/^\*?\d+$/.test(part))) {
+    return null;
+  }
+  parts = parts.map((part) => part.replace(/^(\*?)0+(?=\d)/, "$1"));
+
+  // KO code as prefix ("2242 536-6", "2242-536-6", "2242 9")
+  const koPrefix =
+    cadastralMunicipality &&
+    parts[0] === cadastralMunicipality &&
+    (parts.length === 3 || (parts.length === 2 && separators[0] === ""));
+  if (koPrefix) {
+    parts = parts.slice(1);
+    separators = separators.slice(1);
+  }
+
+  // Only the number itself can be a star number ("*15"), not its part
+  const star = parts[0]?.startsWith("*");
+  if (parts.slice(1).some((part) => part.startsWith("*"))) {
+    return null;
+  }
+  parts = parts.map((part) => part.replace(/^\*/, ""));
+
+  // Two numbers separated only by a space are a list, not a number and its part
+  if (separators.some((separator) => separator === "")) {
+    return null;
+  }
+
+  if (isBuilding && parts.length === 1) {
+    parts.push("1");
+  }
+
+  const [number, part] = parts;
+  if (
+    parts.length === 0 ||
+    parts.length > 2 ||
+    number === "0" ||
+    part === "0" ||
+    number.length > MAX_NUMBER_DIGITS ||
+    (part && part.length > MAX_PART_DIGITS)
+  ) {
+    return null;
+  }
+
+  return `${star && !isBuilding ? "*" : ""}${parts.join("/")}`;
+}
@@ -0,0 +1,44 @@
+/** CSV row by upper case column name */
+export type CsvRow = Record<string, string>;
+
+/**
+ * Helper to parse CSV content of the open data exports
+ * The delimiter (; or ,) is detected from the header, quoted values are supported
+ */
+export function parseCsv(content: string): CsvRow[] {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const delimiter = lines[0].includes(";") ? ";" : ",";
+
+  const splitLine = (line: string): string[] => {
+    const values: string[] = [];
+    let value = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        if (quoted && line[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else {
+          quoted = !quoted;
+        }
+      } else if (char === delimiter && !quoted) {
+        values.push(value.trim());
+        value = "";
+      } else {
+        value += char;
+      }
+    }
+    values.push(value.trim());
+    return values;
+  };
+
+  const header = splitLine(lines[0]).map((column) => column.toUpperCase());
+  return lines
+    .slice(1)
+    .filter((line) => line.trim())
+    .map((line) => {
+      const values = splitLine(line);
+      return Object.fromEntries(header.map((column, i) => [column, values[i] ?? ""]));
+    });
+}
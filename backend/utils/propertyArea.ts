@@ -0,0 +1,24 @@
+import { AuctionProperty } from "../types/Auction.js";
+import { GursBuildingPartValuation } from "../types/GursBuildingPartValuation.js";
+import { GursParcelValuation } from "../types/GursParcelValuation.js";
+
+/**
+ * Helper to get the property area in m² - GURS valuation area (net floor area of buildings,
+ * surface area of parcels), or the area from the announcement
+ */
+export function getPropertyArea(property: AuctionProperty): number | null {
+  const valuation = property.valuation;
+  const area =
+    (valuation as GursBuildingPartValuation)?.netFloorArea ??
+    (valuation as GursParcelValuation)?.surfaceArea ??
+    property.area;
+  return area > 0 ? area : null;
+}
+
+/**
+ * Helper to get the ownership share as a factor (1 if not stated)
+ * @param ownershipShare - Ownership share in %
+ */
+export function getOwnershipFactor(ownershipShare: number | null): number {
+  return ownershipShare > 0 && ownershipShare < 100 ? ownershipShare / 100 : 1;
+}
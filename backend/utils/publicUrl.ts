@@ -0,0 +1,9 @@
+/** CloudFront distribution serving files from the content bucket */
+const PUBLIC_BASE_URL = "https://d2wwwmeai0nw0z.cloudfront.net";
+
+/**
+ * Helper to build a public URL for a file in the content bucket (e.g. images/..., documents/...)
+ */
+export function toPublicUrl(path: string): string {
+  return `${PUBLIC_BASE_URL}/${path.replace(/^\/+/, "")}`;
+}
@@ -13,6 +13,7 @@ import * as s3 from "aws-cdk-lib/aws-s3";
 import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
 import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
 import * as ssm from "aws-cdk-lib/aws-ssm";
+import * as glue from "aws-cdk-lib/aws-glue";
 import { Construct } from "constructs";
 import { LambdaErrorSnsSender } from "lambda-error-sns-sender";
 import { QueueWithDlq } from "./queueWithDlq";
@@ -53,8 +54,17 @@ export class CdkStack extends cdk.Stack {
       }
     );
 
-    // SSM Parameter for non-sensitive configuration
-    const homeAddressParam = new ssm.StringParameter(this, "HomeAddress", {
+    const telegramBotTokenParam = ssm.StringParameter.fromSecureStringParameterAttributes(
+      this,
+      "TelegramBotTokenParam",
+      {
+        parameterName: "/drazbe-ai/telegram-bot-token",
+      }
+    );
+
+    // Home address of the user the analysis was hardcoded for before user profiles
+    // Kept until `npm run migrate:user-profiles` has copied it into the user profile
+    new ssm.StringParameter(this, "HomeAddress", {
       parameterName: "/drazbe-ai/home-address",
       stringValue: "Beblerjev trg 3, 1000 Ljubljana, Slovenia",
       description: "Home address for driving distance calculations",
@@ -69,6 +79,14 @@ export class CdkStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY,
     });
 
+    // Rollout of the new indexes: DynamoDB creates one GSI per table update, and the AuctionTable
+    // stream view type must change in a different update than its GSIs. On the first deploy:
+    // 1. npm run deploy -- -c rolloutStage=1 (stream view type, "published" GSI)
+    // 2. npm run deploy, once the "published" GSI is active ("property" and "score" GSIs)
+    // 3. In backend: npm run migrate:score-keys, then npm run migrate:property-keys
+    // Later deploys need no stage
+    const rolloutStage = Number(this.node.tryGetContext("rolloutStage") ?? 2);
+
     // DynamoDB table for auction data with stream for async processing
     const auctionTable = new dynamodb.TableV2(this, "AuctionTable", {
       tableName: "drazbe-auction",
@@ -76,13 +94,24 @@ export class CdkStack extends cdk.Stack {
       sortKey: { name: "recordKey", type: dynamodb.AttributeType.STRING },
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       timeToLiveAttribute: "ttl",
-      dynamoStream: dynamodb.StreamViewType.NEW_IMAGE,
+      // Old images are needed for cleanup and archiving on REMOVE
+      dynamoStream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
       globalSecondaryIndexes: [
         {
           indexName: "public",
           partitionKey: { name: "gsiPk", type: dynamodb.AttributeType.STRING },
           sortKey: { name: "date", type: dynamodb.AttributeType.STRING },
         },
+        ...(rolloutStage >= 2
+          ? [
+              {
+                // Every auction that involved a parcel or building part (PROPERTY records)
+                indexName: "property",
+                partitionKey: { name: "propertyPk", type: dynamodb.AttributeType.STRING },
+                sortKey: { name: "createdAt", type: dynamodb.AttributeType.STRING },
+              },
+            ]
+          : []),
       ],
     });
 
@@ -100,6 +129,114 @@ export class CdkStack extends cdk.Stack {
       partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
       sortKey: { name: "auctionId", type: dynamodb.AttributeType.STRING },
       removalPolicy: cdk.RemovalPolicy.DESTROY,
+      globalSecondaryIndexes: [
+        {
+          indexName: "published",
+          partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+          sortKey: { name: "publishedAt", type: dynamodb.AttributeType.STRING },
+        },
+        ...(rolloutStage >= 2
+          ? [
+              {
+                // Published auctions of one score, newest first ("score ≥ N" queries)
+                indexName: "score",
+                partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+                sortKey: { name: "scoreKey", type: dynamodb.AttributeType.STRING },
+              },
+            ]
+          : []),
+      ],
+    });
+
+    // DynamoDB table for user profiles (home address, budget, preferences)
+    const userProfileTable = new dynamodb.TableV2(this, "UserProfileTable", {
+      tableName: "drazbe-user-profile",
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      globalSecondaryIndexes: [
+        {
+          indexName: "feedToken",
+          partitionKey: { name: "feedToken", type: dynamodb.AttributeType.STRING },
+        },
+      ],
+    });
+
+    // DynamoDB table for sent notifications (alert deduplication)
+    const notificationTable = new dynamodb.TableV2(this, "NotificationTable", {
+      tableName: "drazbe-notification",
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "notificationKey", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: "ttl",
+    });
+
+    // DynamoDB table for watched auctions (deadline reminders)
+    const watchlistTable = new dynamodb.TableV2(this, "WatchlistTable", {
+      tableName: "drazbe-watchlist",
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "auctionId", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // DynamoDB table for lot history - offerings of the same lot across relistings
+    const lotHistoryTable = new dynamodb.TableV2(this, "LotHistoryTable", {
+      tableName: "drazbe-lot-history",
+      partitionKey: { name: "matchKey", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "auctionId", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // DynamoDB table for final prices of sold auctions by segment (final price estimates)
+    const priceOutcomeTable = new dynamodb.TableV2(this, "PriceOutcomeTable", {
+      tableName: "drazbe-price-outcome",
+      partitionKey: { name: "segmentKey", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "auctionId", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // DynamoDB table for GURS valuation lookups (cache and history of revaluations)
+    const gursValuationTable = new dynamodb.TableV2(this, "GursValuationTable", {
+      tableName: "drazbe-gurs-valuation",
+      partitionKey: { name: "valuationKey", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "retrievedAt", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // DynamoDB table for ETN market transactions (comparable sales), filled by the import script
+    const etnTable = new dynamodb.TableV2(this, "EtnTable", {
+      tableName: "drazbe-etn-transaction",
+      partitionKey: { name: "cellKey", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "saleKey", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // DynamoDB table for tracking auction outcomes after the deadline (sold, unsuccessful, ...)
+    const outcomeTable = new dynamodb.TableV2(this, "OutcomeTable", {
+      tableName: "drazbe-auction-outcome",
+      partitionKey: { name: "auctionId", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      globalSecondaryIndexes: [
+        {
+          indexName: "pending",
+          partitionKey: { name: "gsiPk", type: dynamodb.AttributeType.STRING },
+          sortKey: { name: "checkAfter", type: dynamodb.AttributeType.STRING },
+        },
+      ],
+    });
+
+    // DynamoDB table for per-user property flags (interesting/rejected, price drop alerts)
+    const propertyFlagTable = new dynamodb.TableV2(this, "PropertyFlagTable", {
+      tableName: "drazbe-property-flag",
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "propertyKey", type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      globalSecondaryIndexes: [
+        {
+          indexName: "propertyKey",
+          partitionKey: { name: "propertyKey", type: dynamodb.AttributeType.STRING },
+          sortKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+        },
+      ],
     });
 
     // S3 bucket for files (images, documents) - accessed via CloudFront
@@ -109,6 +246,135 @@ export class CdkStack extends cdk.Stack {
       autoDeleteObjects: true,
     });
 
+    // S3 bucket for archived auctions (expired from the auction table) - queried with Athena
+    const archiveBucket = new s3.Bucket(this, "ArchiveBucket", {
+      bucketName: "drazbe-ai-archive",
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      lifecycleRules: [
+        {
+          transitions: [
+            {
+              storageClass: s3.StorageClass.INFREQUENT_ACCESS,
+              transitionAfter: cdk.Duration.days(90),
+            },
+          ],
+        },
+      ],
+    });
+
+    // Glue table over the archive for Athena (months are resolved by partition projection)
+    const archiveDatabase = new glue.CfnDatabase(this, "ArchiveDatabase", {
+      catalogId: this.account,
+      databaseInput: { name: "drazbe_archive" },
+    });
+    const archiveTable = new glue.CfnTable(this, "ArchiveAuctionTable", {
+      catalogId: this.account,
+      databaseName: "drazbe_archive",
+      tableInput: {
+        name: "auctions",
+        tableType: "EXTERNAL_TABLE",
+        parameters: {
+          classification: "json",
+          "projection.enabled": "true",
+          "projection.year.type": "integer",
+          "projection.year.range": "2024,2100",
+          "projection.month.type": "integer",
+          "projection.month.range": "1,12",
+          "projection.month.digits": "2",
+          "storage.location.template": `s3://${archiveBucket.bucketName}/auctions/year=\${year}/month=\${month}/`,
+        },
+        partitionKeys: [
+          { name: "year", type: "string" },
+          { name: "month", type: "string" },
+        ],
+        storageDescriptor: {
+          location: `s3://${archiveBucket.bucketName}/auctions/`,
+          inputFormat: "org.apache.hadoop.mapred.TextInputFormat",
+          outputFormat: "org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat",
+          serdeInfo: {
+            serializationLibrary: "org.openx.data.jsonserde.JsonSerDe",
+            parameters: { "ignore.malformed.json": "true" },
+          },
+          // Subset of ArchivedAuction, other fields are in the JSON lines
+          columns: [
+            { name: "auctionid", type: "string" },
+            { name: "datasourcecode", type: "string" },
+            { name: "urlsources", type: "array<string>" },
+            { name: "title", type: "string" },
+            { name: "type", type: "string" },
+            { name: "price", type: "double" },
+            { name: "estimatedvalue", type: "double" },
+            { name: "yearbuilt", type: "int" },
+            { name: "location", type: "string" },
+            { name: "casenumber", type: "string" },
+            { name: "publicationdate", type: "string" },
+            { name: "duedate", type: "string" },
+            { name: "duplicateof", type: "string" },
+            {
+              name: "properties",
+              type: "array<struct<type:string,cadastralmunicipality:string,number:string,area:double,ownershipshare:double>>",
+            },
+            {
+              name: "suitabilities",
+              type: "array<struct<userid:string,aiscore:double,rulescore:double>>",
+            },
+            { name: "createdat", type: "string" },
+            { name: "archivedat", type: "string" },
+          ],
+        },
+      },
+    });
+    archiveTable.addDependency(archiveDatabase);
+
+    // Outcomes of archived auctions (join with auctions on auctionid)
+    const archiveOutcomeTable = new glue.CfnTable(this, "ArchiveOutcomeTable", {
+      catalogId: this.account,
+      databaseName: "drazbe_archive",
+      tableInput: {
+        name: "outcomes",
+        tableType: "EXTERNAL_TABLE",
+        parameters: {
+          classification: "json",
+          "projection.enabled": "true",
+          "projection.year.type": "integer",
+          "projection.year.range": "2024,2100",
+          "projection.month.type": "integer",
+          "projection.month.range": "1,12",
+          "projection.month.digits": "2",
+          "storage.location.template": `s3://${archiveBucket.bucketName}/outcomes/year=\${year}/month=\${month}/`,
+        },
+        partitionKeys: [
+          { name: "year", type: "string" },
+          { name: "month", type: "string" },
+        ],
+        storageDescriptor: {
+          location: `s3://${archiveBucket.bucketName}/outcomes/`,
+          inputFormat: "org.apache.hadoop.mapred.TextInputFormat",
+          outputFormat: "org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat",
+          serdeInfo: {
+            serializationLibrary: "org.openx.data.jsonserde.JsonSerDe",
+            parameters: { "ignore.malformed.json": "true" },
+          },
+          columns: [
+            { name: "auctionid", type: "string" },
+            { name: "datasourcecode", type: "string" },
+            { name: "title", type: "string" },
+            { name: "price", type: "double" },
+            { name: "duedate", type: "string" },
+            { name: "status", type: "string" },
+            { name: "achievedprice", type: "double" },
+            { name: "outcomedate", type: "string" },
+            { name: "newduedate", type: "string" },
+            { name: "note", type: "string" },
+            { name: "sourceurl", type: "string" },
+            { name: "checkedat", type: "string" },
+          ],
+        },
+      },
+    });
+    archiveOutcomeTable.addDependency(archiveDatabase);
+
     // SQS queue for source processing
     const sourceQueueWithDlq = new QueueWithDlq(this, "SourceQueue", {
       visibilityTimeoutSeconds: 5 * 60, // 5 minutes
@@ -196,6 +462,7 @@ export class CdkStack extends cdk.Stack {
           beforeInstall: () => [],
           afterBundling: (inputDir, outputDir) => [
             `cp ${inputDir}/backend/sources.json ${outputDir}/`,
+            `cp ${inputDir}/backend/cadastralMunicipalities.json ${outputDir}/`,
           ],
         },
       },
@@ -248,6 +515,10 @@ export class CdkStack extends cdk.Stack {
       environment: {
         AUCTION_TABLE_NAME: auctionTable.tableName,
         VISITED_URL_TABLE_NAME: visitedUrlTable.tableName,
+        LOT_HISTORY_TABLE_NAME: lotHistoryTable.tableName,
+        PRICE_OUTCOME_TABLE_NAME: priceOutcomeTable.tableName,
+        ETN_TABLE_NAME: etnTable.tableName,
+        GURS_VALUATION_TABLE_NAME: gursValuationTable.tableName,
         PUBLIC_BUCKET_NAME: contentBucket.bucketName,
         NODE_OPTIONS: "--enable-source-maps",
       },
@@ -270,12 +541,23 @@ export class CdkStack extends cdk.Stack {
           "chromium-bidi",
           "tesseract.js",
         ],
+        commandHooks: {
+          beforeBundling: () => [],
+          beforeInstall: () => [],
+          afterBundling: (inputDir, outputDir) => [
+            `cp ${inputDir}/backend/cadastralMunicipalities.json ${outputDir}/`,
+          ],
+        },
       },
     });
 
     // Grant auction processor Lambda access to tables
     auctionTable.grantReadWriteData(auctionProcessorLambda);
     visitedUrlTable.grantReadWriteData(auctionProcessorLambda);
+    lotHistoryTable.grantReadWriteData(auctionProcessorLambda);
+    priceOutcomeTable.grantReadData(auctionProcessorLambda);
+    etnTable.grantReadData(auctionProcessorLambda);
+    gursValuationTable.grantReadWriteData(auctionProcessorLambda);
 
     // Grant auction processor Lambda access to S3 bucket for documents
     contentBucket.grantReadWrite(auctionProcessorLambda);
@@ -300,7 +582,7 @@ export class CdkStack extends cdk.Stack {
 
     // SQS queue for auction AI analysis (triggered by DynamoDB stream)
     const auctionAnalysisQueueWithDlq = new QueueWithDlq(this, "AuctionAnalysisQueue", {
-      visibilityTimeoutSeconds: 2 * 60, // 2 minutes
+      visibilityTimeoutSeconds: 6 * 60, // 6 minutes (longer than the analysis Lambda timeout)
       maxReceiveCount: 1,
       createAlarms: true,
       snsTopicAlarm: alarmTopic,
@@ -309,11 +591,15 @@ export class CdkStack extends cdk.Stack {
     // Stream processor Lambda - routes DynamoDB stream events to appropriate queues and handles cleanup
     const streamProcessorLambda = new NodejsFunction(this, "StreamProcessor", {
       entry: "../backend/events/processStream.ts",
-      timeout: cdk.Duration.seconds(30),
+      timeout: cdk.Duration.minutes(1),
       memorySize: 512,
       environment: {
         AUCTION_ANALYSIS_QUEUE_URL: auctionAnalysisQueueWithDlq.queue.queueUrl,
         CONTENT_BUCKET_NAME: contentBucket.bucketName,
+        ARCHIVE_BUCKET_NAME: archiveBucket.bucketName,
+        AUCTION_TABLE_NAME: auctionTable.tableName,
+        USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
       },
       bundling: {
         sourceMap: true,
@@ -327,12 +613,31 @@ export class CdkStack extends cdk.Stack {
     // Grant stream processor Lambda permissions to delete from S3 bucket
     contentBucket.grantDelete(streamProcessorLambda);
 
+    // Grant stream processor Lambda access to archive expired auctions
+    archiveBucket.grantPut(streamProcessorLambda);
+    auctionTable.grantReadData(streamProcessorLambda);
+    userSuitabilityTable.grantReadData(streamProcessorLambda);
+    userProfileTable.grantReadData(streamProcessorLambda);
+
+    // Stream records that still fail after the retries (auctions that could not be archived)
+    const streamProcessorDlq = new sqs.Queue(this, "StreamProcessorDlq", {
+      retentionPeriod: cdk.Duration.days(14),
+    });
+
+    new DlqAlarm(this, "StreamProcessorDlqAlarm", {
+      deadLetterQueue: streamProcessorDlq,
+      snsTopicAlarm: alarmTopic,
+    });
+
     // Add DynamoDB stream trigger to stream processor with filter
     streamProcessorLambda.addEventSource(
       new lambdaEventSources.DynamoEventSource(auctionTable, {
         startingPosition: lambda.StartingPosition.LATEST,
         batchSize: 10,
         retryAttempts: 2,
+        // Only the failed record and the ones after it are retried (see processStream)
+        reportBatchItemFailures: true,
+        onFailure: new lambdaEventSources.SqsDlq(streamProcessorDlq),
         filters: [
           // Process INSERT events for MAIN record types
           lambda.FilterCriteria.filter({
@@ -345,13 +650,13 @@ export class CdkStack extends cdk.Stack {
               },
             },
           }),
-          // Process REMOVE events for PROPERTY or DOCUMENT record types (cleanup S3 files)
+          // Process REMOVE events for MAIN (archive), PROPERTY or DOCUMENT record types (cleanup S3 files)
           lambda.FilterCriteria.filter({
             eventName: lambda.FilterRule.isEqual("REMOVE"),
             dynamodb: {
               OldImage: {
                 recordType: {
-                  S: lambda.FilterRule.or("PROPERTY", "DOCUMENT"),
+                  S: lambda.FilterRule.or("MAIN", "PROPERTY", "DOCUMENT"),
                 },
               },
             },
@@ -366,13 +671,29 @@ export class CdkStack extends cdk.Stack {
       snsTopicAlarm: alarmTopic,
     });
 
+    // SQS queue for instant alerts (triggered by the auction analysis processor)
+    const alertQueueWithDlq = new QueueWithDlq(this, "AlertQueue", {
+      visibilityTimeoutSeconds: 2 * 60, // 2 minutes (longer than the alert Lambda timeout)
+      maxReceiveCount: 3,
+      createAlarms: true,
+      snsTopicAlarm: alarmTopic,
+    });
+
     // Auction AI analysis processor Lambda
     const auctionAnalysisProcessorLambda = new NodejsFunction(this, "AuctionAnalysisProcessor", {
       entry: "../backend/events/processAuctionAnalysis.ts",
-      timeout: cdk.Duration.minutes(2),
+      timeout: cdk.Duration.minutes(5), // one AI analysis per user
       environment: {
         AUCTION_TABLE_NAME: auctionTable.tableName,
         USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
+        PROPERTY_FLAG_TABLE_NAME: propertyFlagTable.tableName,
+        NOTIFICATION_TABLE_NAME: notificationTable.tableName,
+        LOT_HISTORY_TABLE_NAME: lotHistoryTable.tableName,
+        OUTCOME_TABLE_NAME: outcomeTable.tableName,
+        ALERT_QUEUE_URL: alertQueueWithDlq.queue.queueUrl,
+        // Must be a verified SES identity
+        MAIL_FROM: "marko@strukelj.net",
         NODE_OPTIONS: "--enable-source-maps",
       },
       bundling: {
@@ -394,10 +715,32 @@ export class CdkStack extends cdk.Stack {
     // Grant auction analysis processor Lambda access to user suitability table
     userSuitabilityTable.grantReadWriteData(auctionAnalysisProcessorLambda);
 
+    // Grant auction analysis processor Lambda read access to user profiles
+    userProfileTable.grantReadData(auctionAnalysisProcessorLambda);
+
     // Grant auction analysis processor Lambda access to SSM parameters
     openaiApiKeyParam.grantRead(auctionAnalysisProcessorLambda);
     googleMapsApiKeyParam.grantRead(auctionAnalysisProcessorLambda);
-    homeAddressParam.grantRead(auctionAnalysisProcessorLambda);
+
+    // Grant auction analysis processor Lambda permissions to queue alerts
+    alertQueueWithDlq.queue.grantSendMessages(auctionAnalysisProcessorLambda);
+
+    // Grant auction analysis processor Lambda read access to lot history (cross-source dedup)
+    lotHistoryTable.grantReadData(auctionAnalysisProcessorLambda);
+
+    // Grant auction analysis processor Lambda access to start outcome tracking
+    outcomeTable.grantReadWriteData(auctionAnalysisProcessorLambda);
+
+    // Grant auction analysis processor Lambda access for price drop alerts on flagged properties
+    propertyFlagTable.grantReadWriteData(auctionAnalysisProcessorLambda);
+    notificationTable.grantReadWriteData(auctionAnalysisProcessorLambda);
+    telegramBotTokenParam.grantRead(auctionAnalysisProcessorLambda);
+    auctionAnalysisProcessorLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ses:SendEmail"],
+        resources: ["*"],
+      })
+    );
 
     // Add SQS trigger to auction analysis processor Lambda
     auctionAnalysisProcessorLambda.addEventSource(
@@ -412,6 +755,41 @@ export class CdkStack extends cdk.Stack {
       snsTopicAlarm: alarmTopic,
     });
 
+    // Alert processor Lambda - sends webhook and Telegram alerts for top matches
+    const alertProcessorLambda = new NodejsFunction(this, "AlertProcessor", {
+      entry: "../backend/events/processAlert.ts",
+      timeout: cdk.Duration.minutes(1),
+      memorySize: 512,
+      environment: {
+        AUCTION_TABLE_NAME: auctionTable.tableName,
+        USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
+        NOTIFICATION_TABLE_NAME: notificationTable.tableName,
+        NODE_OPTIONS: "--enable-source-maps",
+      },
+      bundling: {
+        sourceMap: true,
+        sourcesContent: false,
+      },
+    });
+
+    auctionTable.grantReadData(alertProcessorLambda);
+    userSuitabilityTable.grantReadData(alertProcessorLambda);
+    userProfileTable.grantReadData(alertProcessorLambda);
+    notificationTable.grantReadWriteData(alertProcessorLambda);
+    telegramBotTokenParam.grantRead(alertProcessorLambda);
+
+    alertProcessorLambda.addEventSource(
+      new lambdaEventSources.SqsEventSource(alertQueueWithDlq.queue, {
+        batchSize: 1,
+      })
+    );
+
+    new LambdaAlarms(this, "AlertProcessorAlarms", {
+      function: alertProcessorLambda as any,
+      snsTopicAlarm: alarmTopic,
+    });
+
     // RSS Feed Lambda with Function URL
     const rssFeedLambda = new NodejsFunction(this, "RssFeedLambda", {
       entry: "../backend/events/rssFeed.ts",
@@ -420,23 +798,251 @@ export class CdkStack extends cdk.Stack {
       environment: {
         AUCTION_TABLE_NAME: auctionTable.tableName,
         USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
+        PROPERTY_FLAG_TABLE_NAME: propertyFlagTable.tableName,
         NODE_OPTIONS: "--enable-source-maps",
       },
       bundling: {
         sourceMap: true,
         sourcesContent: false,
+        commandHooks: {
+          beforeBundling: () => [],
+          beforeInstall: () => [],
+          afterBundling: (inputDir, outputDir) => [
+            `cp ${inputDir}/backend/cadastralMunicipalities.json ${outputDir}/`,
+          ],
+        },
       },
     });
 
     // Grant RSS Lambda read access to tables
     auctionTable.grantReadData(rssFeedLambda);
     userSuitabilityTable.grantReadData(rssFeedLambda);
+    userProfileTable.grantReadData(rssFeedLambda);
+    propertyFlagTable.grantReadData(rssFeedLambda);
 
     // Create Lambda Function URL for RSS feed
     const rssFunctionUrl = rssFeedLambda.addFunctionUrl({
       authType: lambda.FunctionUrlAuthType.NONE,
     });
 
+    // Calendar Feed Lambda with Function URL (iCalendar of deadlines and viewings)
+    const calendarFeedLambda = new NodejsFunction(this, "CalendarFeedLambda", {
+      entry: "../backend/events/calendarFeed.ts",
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 1024,
+      environment: {
+        AUCTION_TABLE_NAME: auctionTable.tableName,
+        USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
+        WATCHLIST_TABLE_NAME: watchlistTable.tableName,
+        PROPERTY_FLAG_TABLE_NAME: propertyFlagTable.tableName,
+        NODE_OPTIONS: "--enable-source-maps",
+      },
+      bundling: {
+        sourceMap: true,
+        sourcesContent: false,
+        commandHooks: {
+          beforeBundling: () => [],
+          beforeInstall: () => [],
+          afterBundling: (inputDir, outputDir) => [
+            `cp ${inputDir}/backend/cadastralMunicipalities.json ${outputDir}/`,
+          ],
+        },
+      },
+    });
+
+    auctionTable.grantReadData(calendarFeedLambda);
+    userSuitabilityTable.grantReadData(calendarFeedLambda);
+    userProfileTable.grantReadData(calendarFeedLambda);
+    watchlistTable.grantReadData(calendarFeedLambda);
+    propertyFlagTable.grantReadData(calendarFeedLambda);
+
+    const calendarFunctionUrl = calendarFeedLambda.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+    });
+
+    // Auction API Lambda with Function URL
+    const auctionApiLambda = new NodejsFunction(this, "AuctionApiLambda", {
+      entry: "../backend/events/auctionApi.ts",
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 1024,
+      environment: {
+        AUCTION_TABLE_NAME: auctionTable.tableName,
+        USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
+        WATCHLIST_TABLE_NAME: watchlistTable.tableName,
+        PROPERTY_FLAG_TABLE_NAME: propertyFlagTable.tableName,
+        LOT_HISTORY_TABLE_NAME: lotHistoryTable.tableName,
+        NODE_OPTIONS: "--enable-source-maps",
+      },
+      bundling: {
+        sourceMap: true,
+        sourcesContent: false,
+        commandHooks: {
+          beforeBundling: () => [],
+          beforeInstall: () => [],
+          afterBundling: (inputDir, outputDir) => [
+            `cp ${inputDir}/backend/cadastralMunicipalities.json ${outputDir}/`,
+          ],
+        },
+      },
+    });
+
+    // Grant API Lambda read access to tables (and write access to the watchlist)
+    auctionTable.grantReadData(auctionApiLambda);
+    userSuitabilityTable.grantReadData(auctionApiLambda);
+    userProfileTable.grantReadData(auctionApiLambda);
+    watchlistTable.grantReadWriteData(auctionApiLambda);
+    propertyFlagTable.grantReadWriteData(auctionApiLambda);
+    lotHistoryTable.grantReadData(auctionApiLambda);
+
+    // Create Lambda Function URL for the API
+    const apiFunctionUrl = auctionApiLambda.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+    });
+
+    // Digest Lambda - sends daily email digests of new auctions
+    const digestLambda = new NodejsFunction(this, "DigestLambda", {
+      entry: "../backend/events/sendDigest.ts",
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 1024,
+      environment: {
+        AUCTION_TABLE_NAME: auctionTable.tableName,
+        USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
+        PROPERTY_FLAG_TABLE_NAME: propertyFlagTable.tableName,
+        // Must be a verified SES identity
+        MAIL_FROM: "marko@strukelj.net",
+        NODE_OPTIONS: "--enable-source-maps",
+      },
+      bundling: {
+        sourceMap: true,
+        sourcesContent: false,
+        commandHooks: {
+          beforeBundling: () => [],
+          beforeInstall: () => [],
+          afterBundling: (inputDir, outputDir) => [
+            `cp ${inputDir}/backend/cadastralMunicipalities.json ${outputDir}/`,
+          ],
+        },
+      },
+    });
+
+    auctionTable.grantReadData(digestLambda);
+    userSuitabilityTable.grantReadData(digestLambda);
+    userProfileTable.grantReadWriteData(digestLambda);
+    propertyFlagTable.grantReadData(digestLambda);
+    digestLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ses:SendEmail"],
+        resources: ["*"],
+      })
+    );
+
+    new LambdaAlarms(this, "DigestAlarms", {
+      function: digestLambda as any,
+      snsTopicAlarm: alarmTopic,
+    });
+
+    // Send the digest every morning at 7:00 Slovenia time
+    new scheduler.Schedule(this, "DigestSchedule", {
+      schedule: scheduler.ScheduleExpression.cron({
+        minute: "0",
+        hour: "7",
+        timeZone: cdk.TimeZone.of("Europe/Ljubljana"),
+      }),
+      target: new targets.LambdaInvoke(digestLambda, {}),
+    });
+
+    // Reminder Lambda - reminds users about deadlines and viewings of watched auctions
+    const reminderLambda = new NodejsFunction(this, "ReminderLambda", {
+      entry: "../backend/events/sendReminders.ts",
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 512,
+      environment: {
+        AUCTION_TABLE_NAME: auctionTable.tableName,
+        USER_SUITABILITY_TABLE_NAME: userSuitabilityTable.tableName,
+        USER_PROFILE_TABLE_NAME: userProfileTable.tableName,
+        WATCHLIST_TABLE_NAME: watchlistTable.tableName,
+        NOTIFICATION_TABLE_NAME: notificationTable.tableName,
+        // Must be a verified SES identity
+        MAIL_FROM: "marko@strukelj.net",
+        NODE_OPTIONS: "--enable-source-maps",
+      },
+      bundling: {
+        sourceMap: true,
+        sourcesContent: false,
+      },
+    });
+
+    auctionTable.grantReadData(reminderLambda);
+    userSuitabilityTable.grantReadData(reminderLambda);
+    userProfileTable.grantReadData(reminderLambda);
+    watchlistTable.grantReadWriteData(reminderLambda);
+    notificationTable.grantReadWriteData(reminderLambda);
+    telegramBotTokenParam.grantRead(reminderLambda);
+    reminderLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ses:SendEmail"],
+        resources: ["*"],
+      })
+    );
+
+    new LambdaAlarms(this, "ReminderAlarms", {
+      function: reminderLambda as any,
+      snsTopicAlarm: alarmTopic,
+    });
+
+    // Send the reminders every morning at 7:30 Slovenia time
+    new scheduler.Schedule(this, "ReminderSchedule", {
+      schedule: scheduler.ScheduleExpression.cron({
+        minute: "30",
+        hour: "7",
+        timeZone: cdk.TimeZone.of("Europe/Ljubljana"),
+      }),
+      target: new targets.LambdaInvoke(reminderLambda, {}),
+    });
+
+    // Outcome Lambda - revisits announcements after the deadline and records the outcome
+    const outcomeLambda = new NodejsFunction(this, "OutcomeLambda", {
+      entry: "../backend/events/checkOutcomes.ts",
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 512,
+      environment: {
+        AUCTION_TABLE_NAME: auctionTable.tableName,
+        OUTCOME_TABLE_NAME: outcomeTable.tableName,
+        PRICE_OUTCOME_TABLE_NAME: priceOutcomeTable.tableName,
+        ARCHIVE_BUCKET_NAME: archiveBucket.bucketName,
+        NODE_OPTIONS: "--enable-source-maps",
+      },
+      bundling: {
+        sourceMap: true,
+        sourcesContent: false,
+      },
+    });
+
+    auctionTable.grantReadWriteData(outcomeLambda);
+    outcomeTable.grantReadWriteData(outcomeLambda);
+    priceOutcomeTable.grantReadWriteData(outcomeLambda);
+    archiveBucket.grantPut(outcomeLambda);
+    openaiApiKeyParam.grantRead(outcomeLambda);
+
+    new LambdaAlarms(this, "OutcomeAlarms", {
+      function: outcomeLambda as any,
+      snsTopicAlarm: alarmTopic,
+    });
+
+    // Check the outcomes every day at 9:00 Slovenia time
+    new scheduler.Schedule(this, "OutcomeSchedule", {
+      schedule: scheduler.ScheduleExpression.cron({
+        minute: "0",
+        hour: "9",
+        timeZone: cdk.TimeZone.of("Europe/Ljubljana"),
+      }),
+      target: new targets.LambdaInvoke(outcomeLambda, {}),
+    });
+
     // CloudFront distribution
     const distribution = new cloudfront.Distribution(this, "Distribution", {
       defaultBehavior: {
@@ -458,8 +1064,35 @@ export class CdkStack extends cdk.Stack {
           origin: new origins.FunctionUrlOrigin(rssFunctionUrl),
           viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
           cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+          // Forward query string parameters (feed filters) to the Function URL
+          originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
           allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
         },
+        // Personal feeds (/rss/{feedToken})
+        "/rss/*": {
+          origin: new origins.FunctionUrlOrigin(rssFunctionUrl),
+          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+          originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+          allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+        },
+        // Personal calendars (/calendar/{feedToken}.ics)
+        "/calendar/*": {
+          origin: new origins.FunctionUrlOrigin(calendarFunctionUrl),
+          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+          originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+          allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+        },
+        "/api/*": {
+          origin: new origins.FunctionUrlOrigin(apiFunctionUrl),
+          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+          // Forward query string parameters (filters, cursor) to the Function URL
+          originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+          // PUT and DELETE for the watchlist and property flags
+          allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
+        },
       },
     });
 
@@ -489,6 +1122,41 @@ export class CdkStack extends cdk.Stack {
       description: "User Suitability Table Name",
     });
 
+    new cdk.CfnOutput(this, "UserProfileTableName", {
+      value: userProfileTable.tableName,
+      description: "User Profile Table Name",
+    });
+
+    new cdk.CfnOutput(this, "NotificationTableName", {
+      value: notificationTable.tableName,
+      description: "Notification Table Name",
+    });
+
+    new cdk.CfnOutput(this, "WatchlistTableName", {
+      value: watchlistTable.tableName,
+      description: "Watchlist Table Name",
+    });
+
+    new cdk.CfnOutput(this, "LotHistoryTableName", {
+      value: lotHistoryTable.tableName,
+      description: "Lot History Table Name",
+    });
+
+    new cdk.CfnOutput(this, "PropertyFlagTableName", {
+      value: propertyFlagTable.tableName,
+      description: "Property Flag Table Name",
+    });
+
+    new cdk.CfnOutput(this, "EtnTableName", {
+      value: etnTable.tableName,
+      description: "ETN Transaction Table Name (ETN_TABLE_NAME for npm run import:etn)",
+    });
+
+    new cdk.CfnOutput(this, "ArchiveBucketName", {
+      value: archiveBucket.bucketName,
+      description: "S3 bucket with archived auctions (Athena table drazbe_archive.auctions)",
+    });
+
     new cdk.CfnOutput(this, "ContentBucketName", {
       value: contentBucket.bucketName,
       description: "Content S3 Bucket Name",
@@ -503,5 +1171,10 @@ export class CdkStack extends cdk.Stack {
       value: `https://${distribution.distributionDomainName}/rss`,
       description: "RSS Feed URL",
     });
+
+    new cdk.CfnOutput(this, "AuctionApiUrl", {
+      value: `https://${distribution.distributionDomainName}/api/auctions`,
+      description: "Auction API URL",
+    });
   }
 }